@@ -1,6 +1,11 @@
 import { parse as parseToml } from "@iarna/toml";
 import { readFileSync } from "node:fs";
-import { ConfigSchema, type Config, type ProviderConfig } from "./schema";
+import {
+  ConfigSchema,
+  type ClientOptions,
+  type Config,
+  type ProviderConfig,
+} from "./schema";
 
 /**
  * Load and parse TOML configuration file
@@ -87,9 +92,9 @@ let globalConfig: Config | null = null;
 
 /**
  * Keys map for O(1) authentication lookup
- * Key: API key string, Value: true (for existence check)
+ * Key: API key string, Value: client options of the key
  */
-let keysMap: Map<string, boolean> = new Map();
+let keysMap: Map<string, ClientOptions> = new Map();
 
 /**
  * Initialize global configuration
@@ -98,18 +103,22 @@ let keysMap: Map<string, boolean> = new Map();
 export function setConfig(config: Config): void {
   globalConfig = config;
   // Preload keys into Map for O(1) access
-  initializeKeysMap(config.app.keys);
+  initializeKeysMap(config.app.keys, config.app.clients);
 }
 
 /**
  * Initialize keys map from keys array
  * @param keys Array of API keys
+ * @param clients Client options by API key
  */
-function initializeKeysMap(keys: string[]): void {
+function initializeKeysMap(
+  keys: string[],
+  clients: Record<string, ClientOptions>
+): void {
   keysMap.clear();
   if (keys && keys.length > 0) {
     for (const key of keys) {
-      keysMap.set(key, true);
+      keysMap.set(key, clients[key] ?? {});
     }
   }
 }
@@ -123,6 +132,24 @@ export function isValidKey(key: string): boolean {
   return keysMap.has(key);
 }
 
+/**
+ * Check if a key is an admin key
+ * @param key The API key to check
+ * @returns true if key is listed in app.admin_keys, false otherwise
+ */
+export function isAdminKey(key: string): boolean {
+  return getConfig().app.admin_keys.includes(key);
+}
+
+/**
+ * Get the client options of an API key
+ * @param key The API key
+ * @returns Client options, empty if the key has none
+ */
+export function getClientOptions(key: string): ClientOptions {
+  return keysMap.get(key) ?? {};
+}
+
 /**
  * Get the global configuration
  * @returns The global configuration
@@ -138,7 +165,10 @@ export function getConfig(): Config {
 // Re-export types
 export type {
   AppConfig,
+  ClientOptions,
   Config,
   LoggingConfig,
   ProviderConfig,
+  ResponseValidator,
+  VirtualModel,
 } from "./schema";
@@ -1,16 +1,153 @@
 import { z } from "zod";
 
+// Fake-streaming keep-alive payload
+// - comment: SSE comment lines (": ping")
+// - empty: chat.completion.chunk with empty content
+// - reasoning: chat.completion.chunk with reasoning_content (reasoningPlaceholder first, then empty)
+export const KeepAliveSchema = z.enum(["comment", "empty", "reasoning"]);
+
+// Per client key options
+export const ClientOptionsSchema = z.object({
+  keep_alive: KeepAliveSchema.optional(), // overrides provider and global keep-alive
+});
+
 // App configuration schema
 export const AppConfigSchema = z.object({
   host: z.string().default("0.0.0.0"),
   port: z.number().int().positive().default(3000),
   keys: z.array(z.string().min(1)), // API keys for authentication
+  admin_keys: z.array(z.string().min(1)).default([]), // API keys for the admin endpoints (disabled if empty)
+  clients: z.record(z.string().min(1), ClientOptionsSchema).default({}), // API key -> client options
+});
+
+// Simulated typing options (re-chunking of fake-streamed content)
+const TypingOptionsSchema = z.object({
+  enabled: z.boolean(),
+  split: z.enum(["word", "sentence", "chars"]), // how the content is split into chunks
+  chunkSize: z.number().int().positive(), // characters per chunk ("chars" only)
+  interval: z.number().int().nonnegative(), // milliseconds between chunks
+  duration: z.number().int().positive().optional(), // total time budget in milliseconds, overrides interval
+});
+
+export const TypingConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  split: TypingOptionsSchema.shape.split.default("word"),
+  chunkSize: TypingOptionsSchema.shape.chunkSize.default(20),
+  interval: TypingOptionsSchema.shape.interval.default(30),
+  duration: TypingOptionsSchema.shape.duration,
+  models: z
+    .record(z.string().min(1), TypingOptionsSchema.partial())
+    .default({}), // per ModelAlias overrides
+});
+
+// Retry policy of upstream requests
+const RetryPolicySchema = z.object({
+  maxRetries: z.number().int().positive(), // attempts per request
+  baseDelay: z.number().int().nonnegative(), // milliseconds before the first retry
+  multiplier: z.number().min(1), // backoff growth per attempt
+  maxDelay: z.number().int().nonnegative(), // backoff cap in milliseconds
+  jitter: z.number().min(0).max(1), // random +/- fraction of the delay
+  maxRetryAfter: z.number().int().nonnegative(), // longer Retry-After delays end the retries
+  retryStatuses: z.array(z.number().int()), // HTTP statuses worth retrying, others are fatal
+  retryCodes: z.array(z.string().min(1)), // error codes always retried
+  fatalCodes: z.array(z.string().min(1)), // error codes never retried
+});
+
+export const RetryConfigSchema = z.object({
+  maxRetries: RetryPolicySchema.shape.maxRetries.optional(), // defaults to the deprecated [advanced] maxRetries, then 3
+  baseDelay: RetryPolicySchema.shape.baseDelay.default(500),
+  multiplier: RetryPolicySchema.shape.multiplier.default(2),
+  maxDelay: RetryPolicySchema.shape.maxDelay.default(8000),
+  jitter: RetryPolicySchema.shape.jitter.default(0.2),
+  maxRetryAfter: RetryPolicySchema.shape.maxRetryAfter.default(60000),
+  retryStatuses: RetryPolicySchema.shape.retryStatuses.default([
+    408, 409, 425, 429, 500, 502, 503, 504, 529,
+  ]),
+  retryCodes: RetryPolicySchema.shape.retryCodes.default([]),
+  fatalCodes: RetryPolicySchema.shape.fatalCodes.default([
+    "insufficient_quota",
+    "context_length_exceeded",
+    "invalid_api_key",
+  ]),
+  models: z.record(z.string().min(1), RetryPolicySchema.partial()).default({}), // per ModelAlias overrides
+});
+
+// Automatic continuation of responses truncated by finish_reason "length"
+export const ContinuationConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  maxRounds: z.number().int().positive().default(3), // continuation requests per response
+  maxTokens: z.number().int().positive().optional(), // total completion token budget across rounds
+  prompt: z
+    .string()
+    .default(
+      "Continue exactly where you left off, without repeating what you already wrote."
+    ), // user message after the partial answer, empty for assistant prefill only
+});
+
+// Fallback chain step, tried when the previous model failed
+const FallbackStepSchema = z.object({
+  model: z.string().min(1), // ModelAlias
+  maxRetries: z.number().int().positive().optional(), // attempts on this model (its retry policy if not set)
+  on: z.array(z.enum(["retryable", "fatal"])).default(["retryable"]), // error classes of the previous model that advance to this step
+});
+
+// Hedged requests: a duplicate request is sent if no response arrived in time
+const HedgePolicySchema = z.object({
+  delay: z.number().int().positive().default(10000), // milliseconds without a response before hedging
+  percentile: z.number().gt(0).lt(100).optional(), // hedge after this percentile of the observed latency instead of delay
+  minSamples: z.number().int().positive().default(20), // observed responses before the percentile is used
+  maxHedges: z.number().int().positive().default(1), // duplicate requests per request
+  targets: z.array(z.string().min(1)).default([]), // ModelAliases of the hedges, in order (the requested model if empty)
+});
+
+// Circuit breaker of upstream providers
+const CircuitBreakerPolicySchema = z.object({
+  failureThreshold: z.number().int().positive(), // consecutive failures that open the circuit
+  windowFailures: z.number().int().positive().optional(), // failures within the window that open the circuit
+  window: z.number().int().positive(), // milliseconds of the failure window
+  openDuration: z.number().int().positive(), // milliseconds requests are rejected before probing
+  probes: z.number().int().positive(), // successful probe requests that close the circuit
+});
+
+export const CircuitBreakerConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  scope: z.enum(["provider", "model"]).default("provider"), // one circuit per provider or per ModelAlias
+  failureThreshold:
+    CircuitBreakerPolicySchema.shape.failureThreshold.default(5),
+  windowFailures: CircuitBreakerPolicySchema.shape.windowFailures,
+  window: CircuitBreakerPolicySchema.shape.window.default(60000),
+  openDuration: CircuitBreakerPolicySchema.shape.openDuration.default(30000),
+  probes: CircuitBreakerPolicySchema.shape.probes.default(1),
+});
+
+// Resumable fake streams (buffered for reconnecting clients)
+export const ResumeConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  ttl: z.number().int().positive().default(300000), // milliseconds a finished stream stays available
 });
 
 export const AdvancedConfigSchema = z.object({
   fakeStreamInterval: z.number().int().positive().default(500), // milliseconds
-  maxRetries: z.number().int().positive().default(3), // retries for upstream requests
+  keepAlive: KeepAliveSchema.default("empty"), // fake-streaming keep-alive payload
+  reasoningPlaceholder: z.string().default(""), // reasoning_content of the first "reasoning" keep-alive packet, stays in the client's transcript
+  nonStreamKeepAlive: z.boolean().default(false), // trickle whitespace before non-streaming JSON responses
+  maxRetries: z.number().int().positive().optional(), // deprecated, [advanced.retry] maxRetries takes precedence
+  retry: RetryConfigSchema.default(RetryConfigSchema.parse({})), // retry policy (backoff, error classification)
+  abortOnDisconnect: z.boolean().default(true), // abort upstream requests when the client disconnects
   contentSpoof: z.boolean().default(false), // whether to spoof content in request
+  typing: TypingConfigSchema.default(TypingConfigSchema.parse({})), // simulated typing in fake-streaming
+  fallbacks: z
+    .record(z.string().min(1), z.array(FallbackStepSchema))
+    .default({}), // ModelAlias -> fallback chain
+  servedModelField: z.boolean().default(false), // add served_model (the model that answered) to responses
+  hedging: z.record(z.string().min(1), HedgePolicySchema).default({}), // ModelAlias -> hedging policy
+  continuation: ContinuationConfigSchema.default(
+    ContinuationConfigSchema.parse({})
+  ), // auto-continue length-truncated responses
+  resume: ResumeConfigSchema.default(ResumeConfigSchema.parse({})), // resumable fake streams
+  circuitBreaker: CircuitBreakerConfigSchema.default(
+    CircuitBreakerConfigSchema.parse({})
+  ), // fail fast while a provider is down
 });
 
 // Logging configuration schema
@@ -24,17 +161,239 @@ export const ProviderFilterSchema = z.object({
   models: z.array(z.string().min(1)),
 });
 
-// Provider configuration schema
-export const ProviderConfigSchema = z
+// Provider passthrough parameters configuration schema
+// Controls which unknown request fields are forwarded upstream
+export const ProviderPassthroughSchema = z.object({
+  mode: z.enum(["whitelist", "blacklist"]),
+  params: z.array(z.string().min(1)),
+});
+
+// Upstream request mode of OpenAI-compatible providers
+// - non-stream: plain non-streaming requests
+// - aggregate: streaming requests, chunks are reassembled into one response
+const UpstreamModeSchema = z
+  .enum(["non-stream", "aggregate"])
+  .default("non-stream");
+
+// Stream mode of providers that can stream (OpenAI-compatible)
+// - fake: non-streaming upstream request, fake-streamed to the client
+// - passthrough: upstream chunks are relayed to the client as they arrive
+const StreamModeSchema = z.enum(["fake", "passthrough"]);
+
+// Response validator rule, a response failing it triggers the rule's action
+// - regex: content matches pattern (e.g. soft refusals)
+// - finish_reason: finish_reason is one of finish_reasons (e.g. content_filter)
+// - min_length: content is shorter than min_length characters
+// - tool_call_required: tool_choice requires a tool call but the response has none
+// Actions: retry, fallback (send the request to the fallback model) or pass (log only)
+export const ResponseValidatorSchema = z
   .object({
-    enabled: z.boolean().default(true),
-    type: z.literal("openai"), // Currently only supports OpenAI
-    endpoint: z.url(),
-    api_key: z.string().min(1),
-    filter: ProviderFilterSchema.optional(),
-    // Allow additional provider-specific fields
+    type: z.enum([
+      "regex",
+      "finish_reason",
+      "min_length",
+      "tool_call_required",
+    ]),
+    pattern: z.string().min(1).optional(), // "regex": JavaScript regular expression
+    flags: z.string().default("i"), // "regex": regular expression flags (g and y are ignored)
+    finish_reasons: z.array(z.string().min(1)).default([]), // "finish_reason": disallowed values
+    min_length: z.number().int().positive().optional(), // "min_length": minimum characters
+    models: z.array(z.string().min(1)).optional(), // model IDs the rule applies to (all if not set)
+    action: z.enum(["retry", "fallback", "pass"]).default("retry"),
+    fallback: z.string().min(1).optional(), // "fallback": ModelAlias to send the request to
+  })
+  .refine(
+    (validator) => {
+      if (validator.type !== "regex") {
+        return true;
+      }
+      try {
+        new RegExp(validator.pattern ?? "", validator.flags);
+        return !!validator.pattern;
+      } catch {
+        return false;
+      }
+    },
+    { message: '"regex" validators need a valid pattern' }
+  )
+  .refine(
+    (validator) => validator.type !== "min_length" || validator.min_length,
+    { message: '"min_length" validators need min_length' }
+  )
+  .refine(
+    (validator) => validator.action !== "fallback" || validator.fallback,
+    { message: '"fallback" action needs a fallback ModelAlias' }
+  );
+
+// Upstream API key pool, keys are rotated per request
+const ApiKeyPoolConfigSchema = z.object({
+  api_key: z.string().min(1).optional(),
+  api_keys: z.array(z.string().min(1)).default([]), // additional keys of the pool
+  api_keys_file: z.string().min(1).optional(), // file with one key per line (# comments)
+  key_rotation: z.enum(["round_robin", "random"]).default("round_robin"),
+  key_cooldown: z.number().int().positive().default(60000), // milliseconds a rate-limited key is skipped (unless Retry-After is longer)
+});
+
+// Key pool settings, other provider types only take a single api_key
+const KEY_POOL_FIELDS = Object.keys(ApiKeyPoolConfigSchema.shape).filter(
+  (field) => field !== "api_key"
+);
+
+// Common provider configuration fields shared by all provider types
+const ProviderBaseConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  filter: ProviderFilterSchema.optional(),
+  passthrough: ProviderPassthroughSchema.optional(), // forward all unknown fields if not set
+  record: z.string().min(1).optional(), // directory to record request/response cassettes into
+  replay: z.string().min(1).optional(), // directory to replay cassettes from (no network)
+  inline_images: z.boolean().default(false), // download remote image_url parts and send them as base64 data URLs
+  keep_alive: KeepAliveSchema.optional(), // overrides the global keep-alive
+  think_tags: z.enum(["extract", "strip"]).optional(), // <think> tags in content: move into reasoning_content or remove (kept as-is if not set)
+  retry: RetryPolicySchema.partial().optional(), // overrides the global retry policy
+  circuit_breaker: CircuitBreakerPolicySchema.partial().optional(), // overrides the global circuit breaker policy
+  validators: z.array(ResponseValidatorSchema).default([]), // response validation rules
+});
+
+// OpenAI-compatible provider configuration schema
+export const OpenAIProviderConfigSchema = ProviderBaseConfigSchema.extend({
+  type: z.literal("openai"),
+  endpoint: z.url(),
+  ...ApiKeyPoolConfigSchema.shape,
+  upstream_mode: UpstreamModeSchema, // "aggregate" for stream-only upstreams
+  stream_mode: StreamModeSchema.default("fake"),
+  stream_mode_overrides: z
+    .record(z.string().min(1), StreamModeSchema)
+    .default({}), // model ID -> stream mode
+}).passthrough();
+
+// Google AI (Gemini native API) provider configuration schema
+export const GoogleAIProviderConfigSchema = ProviderBaseConfigSchema.extend({
+  type: z.literal("google-ai"),
+  endpoint: z.url().default("https://generativelanguage.googleapis.com/v1beta"),
+  ...ApiKeyPoolConfigSchema.shape,
+}).passthrough();
+
+// Anthropic Messages API provider configuration schema
+export const AnthropicProviderConfigSchema = ProviderBaseConfigSchema.extend({
+  type: z.literal("anthropic"),
+  endpoint: z.url().default("https://api.anthropic.com/v1"),
+  api_key: z.string().min(1),
+  anthropic_version: z.string().min(1).default("2023-06-01"), // anthropic-version header
+  max_tokens: z.number().int().positive().default(8192), // used when the request has no max_tokens
+}).passthrough();
+
+// Ollama (self-hosted runtime) provider configuration schema
+export const OllamaProviderConfigSchema = ProviderBaseConfigSchema.extend({
+  type: z.literal("ollama"),
+  endpoint: z.url().default("http://localhost:11434"),
+  api_key: z.string().min(1).optional(), // Only needed behind an authenticating reverse proxy
+  inline_images: z.boolean().default(true), // Ollama only accepts base64 images
+}).passthrough();
+
+// Azure OpenAI provider configuration schema
+export const AzureOpenAIProviderConfigSchema = ProviderBaseConfigSchema.extend({
+  type: z.literal("azure-openai"),
+  endpoint: z.url(), // Resource endpoint, e.g. https://{resource}.openai.azure.com
+  api_key: z.string().min(1),
+  api_version: z.string().min(1),
+  upstream_mode: UpstreamModeSchema, // "aggregate" for stream-only upstreams
+  stream_mode: StreamModeSchema.default("fake"),
+  stream_mode_overrides: z
+    .record(z.string().min(1), StreamModeSchema)
+    .default({}), // model ID -> stream mode
+  deployments: z
+    .record(z.string().min(1), z.string().min(1)) // deployment name -> model name
+    .refine(
+      (deployments) =>
+        new Set(Object.values(deployments)).size ===
+        Object.keys(deployments).length,
+      { message: "Each model name can only be mapped to one deployment" }
+    ),
+}).passthrough();
+
+// Mock provider response schema
+export const MockResponseSchema = z.object({
+  mode: z.enum(["echo", "text", "tool_call", "empty", "error"]).default("echo"),
+  text: z.string().default("This is a mock response."), // "text" mode content
+  tool_call: z
+    .object({
+      name: z.string().min(1),
+      arguments: z.string().default("{}"), // JSON string
+    })
+    .default({ name: "mock_tool", arguments: "{}" }), // "tool_call" mode call
+  status: z.number().int().min(400).max(599).default(500), // "error" mode HTTP status
+  message: z.string().default("Mock upstream error"), // "error" mode message
+  finish_reason: z.enum(["stop", "length", "content_filter"]).default("stop"), // finish_reason of responses without tool calls
+  latency: z.number().int().nonnegative().optional(), // milliseconds, overrides provider latency
+});
+
+// Mock scripted step schema: a response repeated `repeat` times
+export const MockScriptStepSchema = MockResponseSchema.extend({
+  repeat: z.number().int().positive().default(1),
+});
+
+// Mock (in-process, offline) provider configuration schema
+export const MockProviderConfigSchema = ProviderBaseConfigSchema.extend({
+  type: z.literal("mock"),
+  models: z.array(z.string().min(1)).min(1).default(["mock"]),
+  latency: z.number().int().nonnegative().default(0), // milliseconds
+  response: MockResponseSchema.default(MockResponseSchema.parse({})), // used when no script step applies
+  script: z.array(MockScriptStepSchema).default([]), // scripted responses, consumed in order
+  loop: z.boolean().default(false), // restart the script once it is exhausted
+}).passthrough();
+
+// Provider configuration schema, discriminated by provider type
+export const ProviderConfigSchema = z
+  .discriminatedUnion("type", [
+    OpenAIProviderConfigSchema,
+    GoogleAIProviderConfigSchema,
+    AnthropicProviderConfigSchema,
+    OllamaProviderConfigSchema,
+    AzureOpenAIProviderConfigSchema,
+    MockProviderConfigSchema,
+  ])
+  .refine((config) => !(config.record && config.replay), {
+    message: "record and replay cannot be enabled at the same time",
   })
-  .passthrough();
+  .refine(
+    (config) =>
+      (config.type !== "openai" && config.type !== "google-ai") ||
+      !!config.api_key ||
+      config.api_keys.length > 0 ||
+      !!config.api_keys_file,
+    { message: "api_key, api_keys or api_keys_file is required" }
+  )
+  .refine(
+    (config) =>
+      config.type === "openai" ||
+      config.type === "google-ai" ||
+      KEY_POOL_FIELDS.every((field) => !(field in config)),
+    {
+      message: `${KEY_POOL_FIELDS.join(", ")} are only supported by openai and google-ai providers`,
+    }
+  );
+
+// Virtual model served by a group of ModelAliases (e.g. the same model on several relays)
+// - round_robin: members in turn
+// - weighted: random member, proportional to its weight
+// - least_in_flight: member with the fewest running requests
+// - latency: member with the lowest observed latency
+// - error_rate: member with the lowest observed error rate
+export const VirtualModelSchema = z.object({
+  members: z.array(z.string().min(1)).min(1), // ModelAliases
+  strategy: z
+    .enum([
+      "round_robin",
+      "weighted",
+      "least_in_flight",
+      "latency",
+      "error_rate",
+    ])
+    .default("round_robin"),
+  weights: z.record(z.string().min(1), z.number().positive()).default({}), // member -> weight ("weighted" only, default 1)
+  unhealthy_after: z.number().int().positive().default(3), // consecutive failures that mark a member unhealthy
+  cooldown: z.number().int().positive().default(30000), // milliseconds an unhealthy member is skipped
+});
 
 // Root configuration schema
 export const ConfigSchema = z.object({
@@ -42,12 +401,23 @@ export const ConfigSchema = z.object({
   advanced: AdvancedConfigSchema.default(AdvancedConfigSchema.parse({})),
   logging: LoggingConfigSchema.optional(),
   providers: z.record(z.string(), ProviderConfigSchema).optional(),
+  models: z.record(z.string().min(1), VirtualModelSchema).default({}), // virtual model name -> member group
 });
 
 // Type exports
 export type AppConfig = z.infer<typeof AppConfigSchema>;
 export type AdvancedConfig = z.infer<typeof AdvancedConfigSchema>;
+export type TypingOptions = z.infer<typeof TypingOptionsSchema>;
+export type RetryPolicy = z.infer<typeof RetryPolicySchema>;
+export type CircuitBreakerPolicy = z.infer<typeof CircuitBreakerPolicySchema>;
+export type HedgePolicy = z.infer<typeof HedgePolicySchema>;
+export type ResponseValidator = z.infer<typeof ResponseValidatorSchema>;
 export type LoggingConfig = z.infer<typeof LoggingConfigSchema>;
+export type KeepAlive = z.infer<typeof KeepAliveSchema>;
+export type ClientOptions = z.infer<typeof ClientOptionsSchema>;
 export type ProviderFilter = z.infer<typeof ProviderFilterSchema>;
+export type ProviderPassthrough = z.infer<typeof ProviderPassthroughSchema>;
+export type MockResponse = z.infer<typeof MockResponseSchema>;
 export type ProviderConfig = z.infer<typeof ProviderConfigSchema>;
+export type VirtualModel = z.infer<typeof VirtualModelSchema>;
 export type Config = z.infer<typeof ConfigSchema>;
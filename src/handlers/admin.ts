@@ -0,0 +1,12 @@
+import { logger } from "../logger";
+import { getKeyPools, type KeyPoolEntry } from "../providers/keys";
+
+/**
+ * Handle GET /admin/keys request
+ * Returns the state of the upstream API keys of all providers (masked keys)
+ */
+export function handleKeyPools(): { object: "list"; data: KeyPoolEntry[] } {
+  const data = getKeyPools().flatMap((pool) => pool.entries());
+  logger.debug("Key pools request completed", { keyCount: data.length });
+  return { object: "list", data };
+}
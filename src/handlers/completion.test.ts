@@ -0,0 +1,412 @@
+import { afterAll, afterEach, describe, expect, spyOn, test } from "bun:test";
+import { logger } from "../logger";
+import { MockProviderClient } from "../providers/impl/mock";
+import { chatRequest, configure, fastRetry } from "../test/setup";
+import { RetryExhaustedError, UpstreamError } from "../type/error";
+import {
+  autoContinueCompletion,
+  autoRetryCompletion,
+  fallbackCompletion,
+  handleCompletion,
+  hedgedCompletion,
+} from "./completion";
+
+const completion = spyOn(MockProviderClient.prototype, "completion");
+
+// OpenAI-compatible upstream, chat completions are answered by the handler
+let handleUpstream: (request: Request) => Response = () => chatResponse();
+const upstream = Bun.serve({
+  port: 0,
+  fetch(request) {
+    if (new URL(request.url).pathname.endsWith("/models")) {
+      return Response.json({
+        object: "list",
+        data: [{ id: "gpt", object: "model", created: 0, owned_by: "test" }],
+      });
+    }
+    return handleUpstream(request);
+  },
+});
+
+afterEach(() => completion.mockClear());
+afterAll(() => {
+  completion.mockRestore();
+  upstream.stop(true);
+});
+
+function chatResponse(content = "Hello"): Response {
+  return Response.json({
+    id: "chatcmpl-test",
+    object: "chat.completion",
+    created: 0,
+    model: "gpt",
+    choices: [
+      {
+        index: 0,
+        message: { role: "assistant", content },
+        finish_reason: "stop",
+      },
+    ],
+    usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+  });
+}
+
+// reasoning_content of the chunks of a fake stream, joined like reasoning UIs do
+async function streamedReasoning(stream: unknown): Promise<string> {
+  const text = await new Response(stream as ReadableStream).text();
+  return text
+    .split("\n\n")
+    .filter((event) => event.startsWith("data: {"))
+    .map((event) => JSON.parse(event.slice("data: ".length)))
+    .map((chunk) => chunk.choices?.[0]?.delta?.reasoning_content ?? "")
+    .join("");
+}
+
+function openaiProvider(fields: Record<string, unknown> = {}) {
+  return {
+    type: "openai",
+    endpoint: `${upstream.url.origin}/v1`,
+    api_key: "sk-upstream",
+    ...fields,
+  };
+}
+
+function mockProvider(fields: Record<string, unknown> = {}) {
+  return { type: "mock", ...fields };
+}
+
+describe("autoRetryCompletion", () => {
+  test("retries retryable errors until a response arrives", async () => {
+    await configure({
+      advanced: { retry: { ...fastRetry, maxRetries: 3 } },
+      providers: {
+        mock: mockProvider({
+          script: [
+            { mode: "error", status: 503 },
+            { mode: "empty" },
+            { mode: "text", text: "Hello" },
+          ],
+        }),
+      },
+    });
+    const { response, err } = await autoRetryCompletion(
+      chatRequest("mock/mock")
+    );
+    expect(err).toBeNull();
+    expect(response?.choices[0]?.message.content).toBe("Hello");
+    expect(completion).toHaveBeenCalledTimes(3);
+  });
+
+  test("does not retry fatal errors", async () => {
+    await configure({
+      advanced: { retry: { ...fastRetry, maxRetries: 3 } },
+      providers: {
+        mock: mockProvider({
+          script: [{ mode: "error", status: 400 }, { mode: "text" }],
+        }),
+      },
+    });
+    const { err } = await autoRetryCompletion(chatRequest("mock/mock"));
+    expect(err).toBeInstanceOf(UpstreamError);
+    expect((err as UpstreamError).status).toBe(400);
+    expect(completion).toHaveBeenCalledTimes(1);
+  });
+
+  test("reports the last error once the attempts are used up", async () => {
+    await configure({
+      advanced: { retry: { ...fastRetry, maxRetries: 2 } },
+      providers: {
+        mock: mockProvider({ response: { mode: "error", status: 502 } }),
+      },
+    });
+    const { err } = await autoRetryCompletion(chatRequest("mock/mock"));
+    expect(err).toBeInstanceOf(RetryExhaustedError);
+    expect((err?.cause as UpstreamError).status).toBe(502);
+    expect(completion).toHaveBeenCalledTimes(2);
+  });
+
+  test("retries responses rejected by a validator", async () => {
+    await configure({
+      advanced: { retry: { ...fastRetry, maxRetries: 3 } },
+      providers: {
+        mock: mockProvider({
+          script: [{ mode: "text", text: "Sorry, I can't help with that." }],
+          response: { mode: "text", text: "Sure, here it is." },
+          validators: [{ type: "regex", pattern: "can't help" }],
+        }),
+      },
+    });
+    const { response } = await autoRetryCompletion(chatRequest("mock/mock"));
+    expect(response?.choices[0]?.message.content).toBe("Sure, here it is.");
+    expect(completion).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("autoRetryCompletion with an upstream", () => {
+  test("waits for the Retry-After delay of the upstream", async () => {
+    await configure({
+      advanced: { retry: { ...fastRetry, maxRetries: 2 } },
+      providers: { up: openaiProvider() },
+    });
+    let requests = 0;
+    handleUpstream = () =>
+      ++requests === 1
+        ? Response.json(
+            { error: { message: "Slow down", type: "rate_limit_exceeded" } },
+            { status: 429, headers: { "retry-after-ms": "200" } }
+          )
+        : chatResponse();
+    const startedAt = Date.now();
+    const { response, err } = await autoRetryCompletion(chatRequest("up/gpt"));
+    expect(err).toBeNull();
+    expect(response?.choices[0]?.message.content).toBe("Hello");
+    expect(requests).toBe(2);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(190);
+  });
+
+  test("rate-limited API keys are rotated without using up attempts", async () => {
+    await configure({
+      advanced: { retry: { ...fastRetry, maxRetries: 1 } },
+      providers: {
+        up: openaiProvider({ api_key: "sk-limited", api_keys: ["sk-spare"] }),
+      },
+    });
+    let rejected = 0;
+    handleUpstream = (request) => {
+      if (request.headers.get("authorization") === "Bearer sk-limited") {
+        rejected++;
+        return Response.json(
+          { error: { message: "Rate limited", type: "rate_limit_exceeded" } },
+          { status: 429 }
+        );
+      }
+      return chatResponse();
+    };
+    // One of the requests lands on the limited key, it is then cooling down
+    for (let i = 0; i < 2; i++) {
+      const { err } = await autoRetryCompletion(chatRequest("up/gpt"));
+      expect(err).toBeNull();
+    }
+    expect(rejected).toBe(1);
+  });
+});
+
+describe("fallbackCompletion", () => {
+  test("serves the fallback model once the retries are used up", async () => {
+    await configure({
+      advanced: {
+        retry: { ...fastRetry, maxRetries: 2 },
+        fallbacks: { "broken/mock": [{ model: "backup/mock" }] },
+      },
+      providers: {
+        broken: mockProvider({ response: { mode: "error", status: 503 } }),
+        backup: mockProvider({ response: { mode: "text", text: "Backup" } }),
+      },
+    });
+    const { response, err } = await fallbackCompletion(
+      chatRequest("broken/mock")
+    );
+    expect(err).toBeNull();
+    expect(response?.served_model).toBe("backup/mock");
+    expect(response?.choices[0]?.message.content).toBe("Backup");
+    expect(completion).toHaveBeenCalledTimes(3);
+  });
+
+  test("does not fall back from fatal errors by default", async () => {
+    await configure({
+      advanced: {
+        retry: { ...fastRetry, maxRetries: 2 },
+        fallbacks: { "broken/mock": [{ model: "backup/mock" }] },
+      },
+      providers: {
+        broken: mockProvider({ response: { mode: "error", status: 400 } }),
+        backup: mockProvider(),
+      },
+    });
+    const { err } = await fallbackCompletion(chatRequest("broken/mock"));
+    expect((err as UpstreamError).status).toBe(400);
+    expect(completion).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("fallbackCompletion with a circuit breaker", () => {
+  test("an open circuit falls back like exhausted retries", async () => {
+    await configure({
+      advanced: {
+        retry: { ...fastRetry, maxRetries: 1 },
+        fallbacks: { "broken/mock": [{ model: "backup/mock" }] },
+        circuitBreaker: { enabled: true, failureThreshold: 1 },
+      },
+      providers: {
+        broken: mockProvider({ response: { mode: "error", status: 503 } }),
+        backup: mockProvider(),
+      },
+    });
+    await fallbackCompletion(chatRequest("broken/mock"));
+    completion.mockClear();
+
+    const warn = spyOn(logger, "warn");
+    const { response } = await fallbackCompletion(chatRequest("broken/mock"));
+    expect(response?.served_model).toBe("backup/mock");
+    expect(completion).toHaveBeenCalledTimes(1);
+    const errorClasses = warn.mock.calls.map(
+      ([, details]) => (details as { errorClass?: string }).errorClass
+    );
+    expect(errorClasses.filter(Boolean)).toEqual(["retryable", "retryable"]);
+    warn.mockRestore();
+  });
+});
+
+describe("hedgedCompletion", () => {
+  test("the first response wins and the slower request is aborted", async () => {
+    await configure({
+      advanced: {
+        hedging: { "slow/mock": { delay: 20, targets: ["fast/mock"] } },
+      },
+      providers: {
+        slow: mockProvider({ latency: 5000 }),
+        fast: mockProvider(),
+      },
+    });
+    const error = spyOn(logger, "error");
+    const startedAt = Date.now();
+    const { response, err } = await hedgedCompletion(chatRequest("slow/mock"));
+    expect(err).toBeNull();
+    expect(response?.served_model).toBe("fast/mock");
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+
+    expect(completion).toHaveBeenCalledTimes(2);
+    const [, slowSignal] = completion.mock.calls[0]!;
+    const [, fastSignal] = completion.mock.calls[1]!;
+    expect(slowSignal?.aborted).toBe(true);
+    expect(fastSignal?.aborted).toBe(false);
+
+    // Wait for the aborted request to settle, its cancellation is no error
+    await Bun.sleep(20);
+    expect(error).not.toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
+
+describe("autoContinueCompletion", () => {
+  test("continues responses truncated by the length limit", async () => {
+    await configure({
+      advanced: { continuation: { enabled: true } },
+      providers: {
+        mock: mockProvider({
+          script: [
+            { mode: "text", text: "Once upon", finish_reason: "length" },
+          ],
+          response: { mode: "text", text: " a time." },
+        }),
+      },
+    });
+    const { response, err } = await autoContinueCompletion(
+      chatRequest("mock/mock")
+    );
+    expect(err).toBeNull();
+    expect(response?.choices[0]?.message.content).toBe("Once upon a time.");
+    expect(response?.choices[0]?.finish_reason).toBe("stop");
+
+    // The partial answer is sent back, followed by the continuation prompt
+    const [continued] = completion.mock.calls[1]!;
+    expect(continued.messages.slice(-2).map((m) => m.role)).toEqual([
+      "assistant",
+      "user",
+    ]);
+    expect(continued.messages.at(-2)?.content).toBe("Once upon");
+  });
+});
+
+describe("handleCompletion keep-alive", () => {
+  test("reasoning keep-alive packets carry no placeholder by default", async () => {
+    await configure({
+      advanced: { fakeStreamInterval: 10, keepAlive: "reasoning" },
+      providers: { mock: mockProvider({ latency: 100 }) },
+    });
+    const stream = await handleCompletion(
+      chatRequest("mock/mock", "Hello", { stream: true })
+    );
+    expect(await streamedReasoning(stream)).toBe("");
+  });
+
+  test("the configured reasoning placeholder is sent once", async () => {
+    await configure({
+      advanced: {
+        fakeStreamInterval: 10,
+        keepAlive: "reasoning",
+        reasoningPlaceholder: "Thinking...",
+      },
+      providers: { mock: mockProvider({ latency: 100 }) },
+    });
+    const stream = await handleCompletion(
+      chatRequest("mock/mock", "Hello", { stream: true })
+    );
+    expect(await streamedReasoning(stream)).toBe("Thinking...");
+  });
+});
+
+describe("handleCompletion disconnects", () => {
+  test("a disconnect aborts the upstream request of a fake stream", async () => {
+    await configure({
+      providers: { mock: mockProvider({ latency: 5000 }) },
+    });
+    const client = new AbortController();
+    const stream = (await handleCompletion(
+      chatRequest("mock/mock", "Hello", { stream: true }),
+      undefined,
+      client.signal
+    )) as ReadableStream;
+    const reading = new Response(stream).text().catch(() => "");
+    await Bun.sleep(20);
+    client.abort();
+    await stream.cancel().catch(() => {});
+    await reading;
+
+    const [, upstreamSignal] = completion.mock.calls[0]!;
+    expect(upstreamSignal?.aborted).toBe(true);
+  });
+
+  test("a resumable fake stream keeps its upstream request", async () => {
+    await configure({
+      advanced: { resume: { enabled: true } },
+      providers: { mock: mockProvider({ latency: 100 }) },
+    });
+    const client = new AbortController();
+    const response = (await handleCompletion(
+      chatRequest("mock/mock", "Hello", { stream: true }),
+      undefined,
+      client.signal
+    )) as Response;
+    const reader = response.body!.getReader();
+    await reader.read();
+    client.abort();
+    await reader.cancel();
+
+    const [, upstreamSignal] = completion.mock.calls[0]!;
+    expect(upstreamSignal).toBeDefined();
+    expect(upstreamSignal?.aborted).toBe(false);
+    expect(await completion.mock.results[0]!.value).toMatchObject({
+      err: null,
+    });
+  });
+});
+
+describe("handleCompletion whitespace keep-alive", () => {
+  test("an exception ends the response with a JSON error", async () => {
+    await configure({
+      advanced: { nonStreamKeepAlive: true, fakeStreamInterval: 10 },
+      providers: { mock: mockProvider() },
+    });
+    completion.mockImplementationOnce(async () => {
+      await Bun.sleep(50);
+      throw new Error("Provider crashed");
+    });
+    const response = (await handleCompletion(
+      chatRequest("mock/mock")
+    )) as Response;
+    const body = await response.text();
+    expect(body.startsWith(" ")).toBe(true);
+    expect(JSON.parse(body).error.message).toContain("Provider crashed");
+  });
+});
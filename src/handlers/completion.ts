@@ -1,33 +1,136 @@
-import { getConfig } from "../config";
+import { getClientOptions, getConfig } from "../config";
+import type {
+  HedgePolicy,
+  KeepAlive,
+  RetryPolicy,
+  TypingOptions,
+} from "../config/schema";
 import { logger } from "../logger";
 import { ProviderRouter } from "../providers/router";
 import type {
+  ChatCompletionChunk,
   ChatCompletionsRequest,
   ChatCompletionsResponse,
+  ChatMessage,
 } from "../schemas/openai";
+import { CircuitOpenError, RetryExhaustedError } from "../type/error";
 import { Result } from "../type/result";
-import { spoofRequestContent } from "../utils";
+import {
+  contentToText,
+  failureClass,
+  findFailedValidator,
+  isCancellation,
+  isKeyRotation,
+  isRetryableError,
+  retryDelay,
+  sleep,
+  splitForTyping,
+  spoofRequestContent,
+} from "../utils";
+import { createResumableStream, type ResumableStream } from "./resume";
+
+// Attempts per request when neither [advanced.retry] nor [advanced] sets maxRetries
+const DEFAULT_MAX_RETRIES = 3;
+
+// Observed latencies kept per model for percentile hedging delays
+const HEDGE_LATENCY_SAMPLES = 100;
+
+// Recent latencies of successful completions by model, newest last
+const completionLatencies = new Map<string, number[]>();
+
+// Models already warned about features passthrough streams ignore
+const passthroughWarnings = new Set<string>();
+
+// Streamed tool call, identified by its position in the message's tool_calls
+type ToolCallDelta = NonNullable<ChatMessage["tool_calls"]>[number] & {
+  index: number;
+};
 
 /**
  * Automatically retry completion request up to max retries
+ * Follows the retry policy of the model (see resolveRetryPolicy):
+ * exponential backoff with jitter between attempts (or the Retry-After
+ * delay), and no retries for fatal errors. The returned error carries the
+ * last upstream cause.
+ * Responses failing a response validator of the provider are retried, sent
+ * to the validator's fallback model, or passed through (see ResponseValidatorSchema).
+ * Stops retrying once the signal is aborted (client disconnected)
  * @param request Chat completion request
+ * @param signal Optional abort signal, cancels the upstream request
+ * @param options.maxRetries Overrides the attempts of the retry policy
+ * @param options.fallbackFrom Models that already fell back (guards against fallback loops)
  * @returns Promise that resolves with Result<ChatCompletionsResponse>
  * - If successful: Result with data containing the response, err = null
- * - If failed: Result with err containing the error
+ * - If failed: Result with err containing the error, a RetryExhaustedError
+ *   if all attempts failed with retryable errors
  */
-async function autoRetryCompletion(
-  request: ChatCompletionsRequest
+export async function autoRetryCompletion(
+  request: ChatCompletionsRequest,
+  signal?: AbortSignal,
+  options: { maxRetries?: number; fallbackFrom?: string[] } = {}
 ): Promise<Result<ChatCompletionsResponse>> {
-  const config = getConfig();
-  const maxRetries = config.advanced.maxRetries;
-  for (let i = 1; i <= maxRetries; i++) {
-    const { response, err } = await ProviderRouter.completion(request);
+  const fallbackFrom = options.fallbackFrom ?? [];
+  const policy: RetryPolicy = {
+    ...resolveRetryPolicy(request.model),
+    ...(options.maxRetries !== undefined && { maxRetries: options.maxRetries }),
+  };
+  let lastError: Error | null = null;
+  for (let i = 1; i <= policy.maxRetries; i++) {
+    if (lastError) {
+      const delay = retryDelay(i - 1, policy, lastError);
+      logger.debug("Waiting before retrying completion request", {
+        model: request.model,
+        retry: i,
+        delay,
+      });
+      await sleep(delay, signal);
+    }
+    if (signal?.aborted) {
+      logger.warn("Client disconnected, completion request aborted", {
+        model: request.model,
+        retry: i,
+      });
+      return Result<ChatCompletionsResponse>(
+        new Error("Request aborted, client disconnected")
+      );
+    }
+
+    const { response, err } = await ProviderRouter.completion(request, signal);
     if (err || !response) {
+      lastError = err || new Error("Completion failed");
+      // Client disconnected, or a hedged request that lost
+      if (signal?.aborted || isCancellation(lastError)) {
+        logger.debug("Completion request aborted", {
+          model: request.model,
+          retry: i,
+        });
+        return Result<ChatCompletionsResponse>(lastError);
+      }
+      if (lastError instanceof CircuitOpenError) {
+        logger.warn("Circuit breaker open, not retrying the model", {
+          model: request.model,
+          errorClass: failureClass(lastError),
+          retry: i,
+        });
+        return Result<ChatCompletionsResponse>(lastError);
+      }
+      if (!isRetryableError(lastError, policy)) {
+        logger.error("Completion request failed with a non-retryable error", {
+          model: request.model,
+          error: lastError.message,
+          errorClass: failureClass(lastError),
+          retry: i,
+        });
+        return Result<ChatCompletionsResponse>(lastError);
+      }
       logger.error("Completion request failed, trying again...", {
         model: request.model,
-        error: err?.message,
+        error: lastError.message,
         retry: i,
       });
+      if (isKeyRotation(lastError)) {
+        i--;
+      }
       continue;
     }
 
@@ -39,6 +142,7 @@ async function autoRetryCompletion(
           retry: i,
         }
       );
+      lastError = new Error("Upstream returned an empty response");
       continue;
     }
 
@@ -55,6 +159,7 @@ async function autoRetryCompletion(
           retry: i,
         }
       );
+      lastError = new Error("Upstream returned no choices");
       continue;
     }
 
@@ -83,27 +188,451 @@ async function autoRetryCompletion(
           retry: i,
         }
       );
+      lastError = new Error(
+        "Upstream returned empty content and no tool calls"
+      );
       continue;
     }
 
+    // Check the configured response validators (refusals, truncation, ...)
+    // of the model that answered (the selected member of virtual models)
+    const failed = findFailedValidator(
+      request,
+      response,
+      ProviderRouter.responseValidators(response.served_model ?? request.model)
+    );
+    if (failed?.validator.action === "retry") {
+      logger.warn(
+        "Completion response rejected by validator, trying again...",
+        {
+          model: request.model,
+          validator: failed.validator.type,
+          reason: failed.reason,
+          retry: i,
+        }
+      );
+      lastError = new Error(`Response rejected by validator: ${failed.reason}`);
+      continue;
+    }
+    const fallback = failed?.validator.fallback;
+    if (
+      failed?.validator.action === "fallback" &&
+      fallback &&
+      fallback !== request.model &&
+      !fallbackFrom.includes(fallback)
+    ) {
+      logger.warn("Completion response rejected by validator, falling back", {
+        model: request.model,
+        fallback,
+        validator: failed.validator.type,
+        reason: failed.reason,
+      });
+      const { response: fallbackResponse, err: fallbackErr } =
+        await autoRetryCompletion({ ...request, model: fallback }, signal, {
+          fallbackFrom: [...fallbackFrom, request.model],
+        });
+      return fallbackErr || !fallbackResponse
+        ? Result<ChatCompletionsResponse>(
+            fallbackErr || new Error("Completion failed")
+          )
+        : Result<ChatCompletionsResponse>({
+            ...fallbackResponse,
+            served_model: fallbackResponse.served_model ?? fallback,
+          });
+    }
+    if (failed) {
+      logger.warn("Completion response failed validator, passing it through", {
+        model: request.model,
+        validator: failed.validator.type,
+        reason: failed.reason,
+      });
+    }
+
     return Result<ChatCompletionsResponse>(response);
   }
-  return Result<ChatCompletionsResponse>(new Error("Failed after max retries"));
+  return Result<ChatCompletionsResponse>(
+    new RetryExhaustedError(
+      `Failed after ${policy.maxRetries} attempts: ${
+        lastError?.message ?? "Unknown error"
+      }`,
+      { cause: lastError }
+    )
+  );
+}
+
+/**
+ * Create a completion, hedging slow requests
+ * Follows the hedging policy of the model (advanced.hedging), if any: when
+ * no response arrived within the hedging delay, the request is sent again
+ * (to the next model of the policy's targets, or the same model), up to
+ * maxHedges times. Every request retries and validates its responses like
+ * autoRetryCompletion; the first valid response wins and the other requests
+ * are aborted. A failed request does not end the hedge: the next one is sent
+ * right away, and the error is only returned once all of them failed.
+ * @param request Chat completion request
+ * @param signal Optional abort signal, cancels the upstream requests
+ * @param options Options of autoRetryCompletion, used for every request
+ * @returns Promise that resolves with Result<ChatCompletionsResponse>
+ */
+export async function hedgedCompletion(
+  request: ChatCompletionsRequest,
+  signal?: AbortSignal,
+  options: { maxRetries?: number; fallbackFrom?: string[] } = {}
+): Promise<Result<ChatCompletionsResponse>> {
+  const policy = getConfig().advanced.hedging[request.model];
+  if (!policy) {
+    return autoRetryCompletion(request, signal, options);
+  }
+
+  const delay = hedgeDelay(request.model, policy);
+  const startedAt = Date.now();
+  const controllers: AbortController[] = [];
+  let pending = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let settled = false;
+
+  return new Promise((resolve) => {
+    const abortAll = () => controllers.forEach((c) => c.abort());
+    signal?.addEventListener("abort", abortAll, { once: true });
+
+    const settle = (result: Result<ChatCompletionsResponse>) => {
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", abortAll);
+      resolve(result);
+    };
+
+    const launch = (reason: "delay" | "failure" | null) => {
+      const index = controllers.length;
+      const model =
+        index === 0
+          ? request.model
+          : (policy.targets[(index - 1) % policy.targets.length] ??
+            request.model);
+      const controller = new AbortController();
+      if (signal?.aborted) {
+        controller.abort();
+      }
+      controllers.push(controller);
+      pending++;
+      if (index > 0) {
+        logger.info("Hedging completion request", {
+          model: request.model,
+          hedgeModel: model,
+          hedge: index,
+          reason, // no response within the delay, or all requests failed
+          elapsed: Date.now() - startedAt,
+        });
+      }
+      if (index < policy.maxHedges) {
+        timer = setTimeout(() => launch("delay"), delay);
+      }
+
+      const legStartedAt = Date.now();
+      autoRetryCompletion(
+        { ...request, model },
+        controller.signal,
+        options
+      ).then(({ response, err }) => {
+        pending--;
+        if (settled) {
+          return;
+        }
+        if (!err && response) {
+          if (model === request.model) {
+            recordLatency(request.model, Date.now() - legStartedAt);
+          }
+          controllers.forEach((c) => c !== controller && c.abort());
+          if (index > 0) {
+            logger.info("Hedged request won", {
+              model: request.model,
+              hedgeModel: model,
+              hedge: index,
+              elapsed: Date.now() - startedAt,
+            });
+          }
+          settle(
+            Result<ChatCompletionsResponse>({
+              ...response,
+              served_model: response.served_model ?? model,
+            })
+          );
+          return;
+        }
+        if (pending > 0) {
+          return;
+        }
+        // Send the next hedge right away instead of waiting for the delay
+        if (!signal?.aborted && controllers.length <= policy.maxHedges) {
+          clearTimeout(timer);
+          launch("failure");
+          return;
+        }
+        settle(
+          Result<ChatCompletionsResponse>(err || new Error("Completion failed"))
+        );
+      });
+    };
+
+    launch(null);
+  });
+}
+
+/**
+ * Create a completion, walking the fallback chain of the model on failure
+ * The requested model is tried first with its own retry and hedging policy.
+ * If it fails, the steps of its chain (advanced.fallbacks) are tried in
+ * order, each with its own attempt count. A step is only tried if its `on`
+ * error classes include the class of the previous failure (see failureClass):
+ * "retryable" if the retries were used up or the circuit breaker is open,
+ * "fatal" for other non-retryable errors.
+ * The response carries the ModelAlias that answered in served_model.
+ * @param request Chat completion request
+ * @param signal Optional abort signal, cancels the upstream request
+ * @returns Promise that resolves with Result<ChatCompletionsResponse>
+ */
+export async function fallbackCompletion(
+  request: ChatCompletionsRequest,
+  signal?: AbortSignal
+): Promise<Result<ChatCompletionsResponse>> {
+  let response: ChatCompletionsResponse | null | undefined;
+  let err: Error | null = null;
+  ({ response, err } = await hedgedCompletion(request, signal));
+
+  const chain = getConfig().advanced.fallbacks[request.model] ?? [];
+  const tried = [request.model];
+  for (const step of chain) {
+    if (!err && response) {
+      break;
+    }
+    if (signal?.aborted) {
+      break;
+    }
+    const errorClass = err ? failureClass(err) : "fatal";
+    if (!step.on.includes(errorClass) || tried.includes(step.model)) {
+      continue;
+    }
+    logger.warn("Completion request failed, falling back", {
+      model: request.model,
+      failedModel: tried.at(-1),
+      fallback: step.model,
+      errorClass,
+      error: err?.message,
+    });
+    tried.push(step.model);
+    ({ response, err } = await hedgedCompletion(
+      { ...request, model: step.model },
+      signal,
+      { maxRetries: step.maxRetries, fallbackFrom: [request.model] }
+    ));
+  }
+
+  if (err || !response) {
+    return Result<ChatCompletionsResponse>(
+      tried.length > 1
+        ? new Error(
+            `All models of the fallback chain failed (${tried.join(", ")}): ${
+              err?.message ?? "Unknown error"
+            }`,
+            { cause: err }
+          )
+        : err || new Error("Completion failed")
+    );
+  }
+  return Result<ChatCompletionsResponse>({
+    ...response,
+    served_model: response.served_model ?? tried.at(-1),
+  });
+}
+
+/**
+ * Create a completion, continuing responses truncated by finish_reason "length"
+ * If continuation is enabled, the partial answer is appended as an assistant
+ * message (followed by the continuation prompt, if set) and requested again,
+ * up to maxRounds times or until the completion token budget is used up.
+ * The pieces are stitched into one response with merged usage and the
+ * finish_reason of the last round.
+ * Only single-choice responses without tool calls are continued.
+ * @param request Chat completion request
+ * @param signal Optional abort signal, cancels the upstream request
+ * @returns Promise that resolves with Result<ChatCompletionsResponse>
+ */
+export async function autoContinueCompletion(
+  request: ChatCompletionsRequest,
+  signal?: AbortSignal
+): Promise<Result<ChatCompletionsResponse>> {
+  let response: ChatCompletionsResponse | null | undefined;
+  let err: Error | null = null;
+  ({ response, err } = await fallbackCompletion(request, signal));
+
+  const continuation = getConfig().advanced.continuation;
+  if (!continuation.enabled || err || !response) {
+    return err || !response
+      ? Result<ChatCompletionsResponse>(err || new Error("Completion failed"))
+      : Result<ChatCompletionsResponse>(response);
+  }
+
+  for (let round = 1; round <= continuation.maxRounds; round++) {
+    const choice: ChatCompletionsResponse["choices"][number] | undefined =
+      response.choices[0];
+    if (
+      response.choices.length !== 1 ||
+      choice?.finish_reason !== "length" ||
+      choice.message.tool_calls?.length ||
+      choice.message.function_call
+    ) {
+      break;
+    }
+    const completionTokens = response.usage?.completion_tokens ?? 0;
+    const remainingTokens =
+      continuation.maxTokens !== undefined
+        ? continuation.maxTokens - completionTokens
+        : undefined;
+    if (remainingTokens !== undefined && remainingTokens <= 0) {
+      logger.info("Continuation token budget used up", {
+        model: request.model,
+        completionTokens,
+      });
+      break;
+    }
+
+    const partial = contentToText(choice.message.content ?? null);
+    const messages: ChatMessage[] = [
+      ...request.messages,
+      // Trailing whitespace is rejected by some prefill implementations
+      { role: "assistant", content: partial.trimEnd() },
+    ];
+    if (continuation.prompt) {
+      messages.push({ role: "user", content: continuation.prompt });
+    }
+    logger.info("Response truncated, requesting continuation", {
+      model: request.model,
+      round,
+      completionTokens,
+    });
+
+    let next: ChatCompletionsResponse | null | undefined;
+    let nextErr: Error | null = null;
+    // Continue with the model that answered
+    ({ response: next, err: nextErr } = await autoRetryCompletion(
+      {
+        ...request,
+        model: response.served_model ?? request.model,
+        messages,
+        max_tokens:
+          remainingTokens !== undefined
+            ? Math.min(request.max_tokens ?? remainingTokens, remainingTokens)
+            : request.max_tokens,
+      },
+      signal
+    ));
+    if (nextErr || !next?.choices[0]) {
+      // Keep the truncated answer rather than failing the whole request
+      logger.warn("Continuation request failed, returning truncated response", {
+        model: request.model,
+        round,
+        error: nextErr?.message,
+      });
+      break;
+    }
+
+    const nextChoice = next.choices[0];
+    const reasoning = [
+      choice.message.reasoning_content,
+      nextChoice.message.reasoning_content,
+    ]
+      .filter(Boolean)
+      .join("");
+    response = {
+      ...response,
+      choices: [
+        {
+          ...choice,
+          message: {
+            ...choice.message,
+            content:
+              partial + contentToText(nextChoice.message.content ?? null),
+            ...(reasoning ? { reasoning_content: reasoning } : {}),
+            ...(nextChoice.message.tool_calls
+              ? { tool_calls: nextChoice.message.tool_calls }
+              : {}),
+          },
+          finish_reason: nextChoice.finish_reason,
+        },
+      ],
+      usage:
+        response.usage && next.usage
+          ? {
+              ...response.usage,
+              prompt_tokens:
+                response.usage.prompt_tokens + next.usage.prompt_tokens,
+              completion_tokens:
+                response.usage.completion_tokens + next.usage.completion_tokens,
+              total_tokens:
+                response.usage.total_tokens + next.usage.total_tokens,
+            }
+          : (response.usage ?? next.usage),
+    };
+  }
+
+  return Result<ChatCompletionsResponse>(response);
 }
 
 /**
  * Handle POST /v1/chat/completions request
  * Routes the request to the correct provider based on ModelAlias
  *
- * If stream=true, implements fake-streaming:
+ * If stream=false and nonStreamKeepAlive is enabled, a 200 JSON response is
+ * committed immediately (see createWhitespaceKeepAliveResponse).
+ *
+ * If stream=true and the provider is in passthrough stream mode, upstream
+ * chunks are relayed as they arrive (see createPassthroughStream).
+ *
+ * Otherwise, if stream=true, implements fake-streaming:
  * - Sends empty SSE data packets while waiting for upstream response
- * - Once upstream responds, sends the full content as the final packet
+ * - Once upstream responds, sends the reasoning (if any) and then the full
+ *   content as the final packets
+ * - With simulated typing enabled, the content is re-chunked and sent
+ *   progressively instead
+ * - Ends with the finish_reason chunk, the usage chunk (if
+ *   stream_options.include_usage is set) and [DONE]
+ *
+ * If resume is enabled, fake-streamed events carry SSE event IDs and are
+ * buffered, so a reconnecting client can receive the remainder (see
+ * handleResume). The stream ID is returned in the X-Stream-Id header.
+ *
+ * If abortOnDisconnect is enabled, a client disconnect (request signal or
+ * stream cancel) aborts the in-flight upstream request and pending retries.
  */
 export async function handleCompletion(
-  request: ChatCompletionsRequest
-): Promise<ChatCompletionsResponse | ReadableStream> {
+  request: ChatCompletionsRequest,
+  clientKey?: string,
+  signal?: AbortSignal
+): Promise<ChatCompletionsResponse | ReadableStream | Response> {
   const config = getConfig();
 
+  // Aborted by the client request signal, and by stream cancel below
+  // Not while a resumable buffer is attached, its result can still be resumed
+  const abortController = config.advanced.abortOnDisconnect
+    ? new AbortController()
+    : undefined;
+  let resumable: ResumableStream | undefined;
+  if (abortController && signal) {
+    if (signal.aborted) {
+      abortController.abort();
+    } else {
+      signal.addEventListener(
+        "abort",
+        () => {
+          if (!resumable) {
+            abortController.abort();
+          }
+        },
+        { once: true }
+      );
+    }
+  }
+
   // Spoof request content if enabled
   if (config.advanced.contentSpoof) {
     request = spoofRequestContent(request);
@@ -116,9 +645,17 @@ export async function handleCompletion(
       messageCount: request.messages.length,
     });
 
+    // Commit the response early and keep the connection alive with whitespace
+    if (config.advanced.nonStreamKeepAlive) {
+      return createWhitespaceKeepAliveResponse(request, abortController);
+    }
+
     let response: ChatCompletionsResponse | null | undefined;
     let err: Error | null = null;
-    ({ response, err } = await autoRetryCompletion(request));
+    ({ response, err } = await autoContinueCompletion(
+      request,
+      abortController?.signal
+    ));
 
     if (err || !response) {
       logger.error("Non-streaming completion request failed", {
@@ -139,21 +676,157 @@ export async function handleCompletion(
     return response;
   }
 
-  // Stream is true - implement fake-streaming
+  // Stream is true - relay upstream chunks if the provider is in passthrough mode
+  if (ProviderRouter.streamMode(request.model) === "passthrough") {
+    logger.info("Starting passthrough streaming completion request", {
+      model: request.model,
+      messageCount: request.messages.length,
+    });
+    warnPassthroughIgnored(request.model);
+    const keepAlive = resolveKeepAlive(request.model, clientKey);
+    // No fallbacks or virtual models in passthrough, the requested model answers
+    return new Response(
+      createPassthroughStream(request, keepAlive, abortController),
+      {
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+          "X-Served-Model": request.model,
+        },
+      }
+    );
+  }
+
+  // Otherwise implement fake-streaming
   logger.info("Starting fake-streaming completion request", {
     model: request.model,
     messageCount: request.messages.length,
   });
-  return createFakeStream(request);
+  const keepAlive = resolveKeepAlive(request.model, clientKey);
+
+  // Buffer the events for reconnecting clients, the upstream request is not
+  // aborted on disconnect while the buffer is attached
+  if (config.advanced.resume.enabled) {
+    resumable = createResumableStream(clientKey);
+    logger.debug("Fake stream is resumable", {
+      model: request.model,
+      streamId: resumable.id,
+    });
+    const stream = await createFakeStream(
+      request,
+      keepAlive,
+      abortController,
+      resumable
+    );
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "X-Stream-Id": resumable.id,
+      },
+    });
+  }
+
+  return createFakeStream(request, keepAlive, abortController);
+}
+
+/**
+ * Remove served_model from a response unless servedModelField is enabled
+ * (it is still reported in the X-Served-Model header of non-streaming and
+ * passthrough responses; fake streams and whitespace keep-alive responses
+ * send their headers before the upstream answered)
+ */
+export function withServedModelField(
+  response: ChatCompletionsResponse
+): ChatCompletionsResponse {
+  if (getConfig().advanced.servedModelField) {
+    return response;
+  }
+  const { served_model: _, ...rest } = response;
+  return rest;
+}
+
+/**
+ * Resolve simulated typing options for a model
+ * Per-model overrides (by ModelAlias) take precedence over the defaults
+ */
+function resolveTypingOptions(model: string): TypingOptions {
+  const { models, ...defaults } = getConfig().advanced.typing;
+  return { ...defaults, ...models[model] };
+}
+
+/**
+ * Resolve the retry policy for a model
+ * Per-model overrides (by ModelAlias) take precedence over the provider's
+ * retry settings, then the global policy. The global attempt count falls back
+ * to the deprecated [advanced] maxRetries, then DEFAULT_MAX_RETRIES
+ */
+function resolveRetryPolicy(model: string): RetryPolicy {
+  const { advanced } = getConfig();
+  const { models, maxRetries, ...defaults } = advanced.retry;
+  return {
+    ...defaults,
+    maxRetries: maxRetries ?? advanced.maxRetries ?? DEFAULT_MAX_RETRIES,
+    ...ProviderRouter.getProviderConfig(model)?.retry,
+    ...models[model],
+  };
+}
+
+/**
+ * Resolve the hedging delay of a model
+ * The configured percentile of the observed latencies once minSamples
+ * responses were seen, the fixed delay otherwise
+ */
+function hedgeDelay(model: string, policy: HedgePolicy): number {
+  const samples = completionLatencies.get(model) ?? [];
+  if (policy.percentile === undefined || samples.length < policy.minSamples) {
+    return policy.delay;
+  }
+  const sorted = [...samples].sort((a, b) => a - b);
+  const index = Math.ceil((policy.percentile / 100) * sorted.length) - 1;
+  return sorted[Math.max(0, index)]!;
+}
+
+/**
+ * Record the latency of a successful completion for percentile hedging
+ */
+function recordLatency(model: string, latency: number): void {
+  const samples = completionLatencies.get(model) ?? [];
+  samples.push(latency);
+  if (samples.length > HEDGE_LATENCY_SAMPLES) {
+    samples.shift();
+  }
+  completionLatencies.set(model, samples);
+}
+
+/**
+ * Resolve the keep-alive strategy for a request
+ * Client key options take precedence over the provider, then the global setting
+ */
+function resolveKeepAlive(model: string, clientKey?: string): KeepAlive {
+  return (
+    (clientKey ? getClientOptions(clientKey).keep_alive : undefined) ??
+    ProviderRouter.getProviderConfig(model)?.keep_alive ??
+    getConfig().advanced.keepAlive
+  );
 }
 
 /**
  * Create a fake-streaming response
- * Sends empty SSE data packets while waiting for upstream response,
+ * Sends keep-alive packets while waiting for upstream response,
  * then sends the full response as the final packet
+ * @param request Chat completion request
+ * @param keepAlive Keep-alive packet strategy
+ * @param abortController Aborted on client disconnect (if abortOnDisconnect is enabled and no resumable buffer is attached)
+ * @param resumable Buffer for resumption, events are produced even after the client disconnected
  */
 async function createFakeStream(
-  request: ChatCompletionsRequest
+  request: ChatCompletionsRequest,
+  keepAlive: KeepAlive,
+  abortController?: AbortController,
+  resumable?: ResumableStream
 ): Promise<ReadableStream> {
   const encoder = new TextEncoder();
   const config = getConfig();
@@ -166,6 +839,8 @@ async function createFakeStream(
   // Shared state for cleanup
   let fakeStreamTimer: ReturnType<typeof setInterval> | null = null;
   let isCancelled = false;
+  // Aborted on client disconnect, ends simulated typing delays early
+  const cancelController = new AbortController();
 
   return new ReadableStream({
     async start(controller) {
@@ -197,6 +872,25 @@ async function createFakeStream(
         }
       };
 
+      // Send an SSE event (keep-alive packets excluded)
+      // Resumable events are buffered with an event ID, so producing them
+      // goes on after the client disconnected
+      const sendEvent = (event: string): boolean => {
+        if (!resumable) {
+          return safeEnqueue(encoder.encode(event));
+        }
+        const position = resumable.push(event);
+        if (!isCancelled) {
+          safeEnqueue(encoder.encode(resumable.format(event, position)));
+        }
+        return true;
+      };
+
+      // Let the client know the stream ID before the first event
+      if (resumable) {
+        safeEnqueue(encoder.encode(`id: ${resumable.id}:0\n\n`));
+      }
+
       // Send empty data packet (OpenAI SSE format)
       const sendEmptyData = () => {
         if (isCompleted || isCancelled) {
@@ -206,8 +900,37 @@ async function createFakeStream(
           }
           return;
         }
-        // Send empty content data packet in OpenAI streaming format
-        const emptyData = `data: ${JSON.stringify({
+        const emptyData = buildKeepAlive();
+        if (safeEnqueue(encoder.encode(emptyData))) {
+          logger.debug("Sent empty data packet (keep-alive)", {
+            model: request.model,
+            strategy: keepAlive,
+            length: emptyData.length,
+          });
+        }
+      };
+
+      // Build a keep-alive packet for the configured strategy
+      let keepAliveCount = 0;
+      const buildKeepAlive = (): string => {
+        keepAliveCount++;
+        if (keepAlive === "comment") {
+          // SSE comment line, ignored by clients
+          return ": ping\n\n";
+        }
+        // Empty content (or reasoning) data packet in OpenAI streaming format
+        // The placeholder is only sent once, reasoning UIs accumulate the deltas
+        // (and keep it in the transcript, so it is empty unless configured)
+        const delta =
+          keepAlive === "reasoning"
+            ? {
+                reasoning_content:
+                  keepAliveCount === 1
+                    ? config.advanced.reasoningPlaceholder
+                    : "",
+              }
+            : { content: "" };
+        return `data: ${JSON.stringify({
           id: tempId,
           object: "chat.completion.chunk",
           created: tempCreated,
@@ -215,19 +938,11 @@ async function createFakeStream(
           choices: [
             {
               index: 0,
-              delta: {
-                content: "",
-              },
+              delta,
               finish_reason: null,
             },
           ],
         })}\n\n`;
-        if (safeEnqueue(encoder.encode(emptyData))) {
-          logger.debug("Sent empty data packet (keep-alive)", {
-            model: request.model,
-            length: emptyData.length,
-          });
-        }
       };
 
       // Start sending empty data packets periodically
@@ -237,7 +952,10 @@ async function createFakeStream(
         // Request completion from provider (non-streaming)
         let response: ChatCompletionsResponse | null | undefined;
         let err: Error | null = null;
-        ({ response, err } = await autoRetryCompletion(request));
+        ({ response, err } = await autoContinueCompletion(
+          request,
+          abortController?.signal
+        ));
 
         // Stop sending empty data packets
         if (fakeStreamTimer) {
@@ -251,14 +969,14 @@ async function createFakeStream(
             messageCount: request.messages.length,
             error: err?.message,
           });
-          if (!isCancelled) {
+          if (!isCancelled || resumable) {
             const errorData = `data: ${JSON.stringify({
               error: {
                 message: err?.message ?? "Unknown error",
                 type: "completion_error",
               },
             })}\n\n`;
-            if (safeEnqueue(encoder.encode(errorData))) {
+            if (sendEvent(errorData)) {
               try {
                 controller.close();
               } catch (closeError) {
@@ -272,6 +990,10 @@ async function createFakeStream(
 
         // Send the full response as streaming chunks
         // Format: OpenAI streaming format
+        // served_model is only included if enabled (undefined is dropped by JSON)
+        const servedModel = config.advanced.servedModelField
+          ? response.served_model
+          : undefined;
 
         // Log success with token information
         logger.info("Fake-streaming completion request succeeded", {
@@ -289,25 +1011,24 @@ async function createFakeStream(
           });
         }
 
-        // Send initial chunk with role (if present)
-        const firstChoice = response.choices[0];
-        if (firstChoice && firstChoice.message.role) {
+        // Send initial chunk with role for every choice
+        if (response.choices.length > 0) {
           const roleChunk = `data: ${JSON.stringify({
             id: response.id,
             object: "chat.completion.chunk",
             created: response.created,
             model: response.model,
-            choices: [
-              {
-                index: firstChoice.index,
-                delta: {
-                  role: firstChoice.message.role,
-                },
-                finish_reason: null,
+            system_fingerprint: response.system_fingerprint,
+            served_model: servedModel,
+            choices: response.choices.map((choice) => ({
+              index: choice.index,
+              delta: {
+                role: choice.message.role,
               },
-            ],
+              finish_reason: null,
+            })),
           })}\n\n`;
-          if (!safeEnqueue(encoder.encode(roleChunk))) {
+          if (!sendEvent(roleChunk)) {
             return;
           } else {
             logger.debug("Sent role chunk", {
@@ -317,52 +1038,167 @@ async function createFakeStream(
           }
         }
 
+        // Send reasoning chunk before the content (if present)
+        const reasoningChoices = response.choices.filter(
+          (choice) => choice.message.reasoning_content
+        );
+        if (reasoningChoices.length > 0) {
+          const reasoningChunk = `data: ${JSON.stringify({
+            id: response.id,
+            object: "chat.completion.chunk",
+            created: response.created,
+            model: response.model,
+            system_fingerprint: response.system_fingerprint,
+            served_model: servedModel,
+            choices: reasoningChoices.map((choice) => ({
+              index: choice.index,
+              delta: {
+                reasoning_content: choice.message.reasoning_content,
+              },
+              finish_reason: null,
+            })),
+          })}\n\n`;
+          if (!sendEvent(reasoningChunk)) {
+            return;
+          } else {
+            logger.debug("Sent reasoning chunk", {
+              model: request.model,
+              length: reasoningChunk.length,
+            });
+          }
+        }
+
+        // Simulated typing: send the content progressively in small chunks
+        const typing = resolveTypingOptions(request.model);
+        if (typing.enabled) {
+          const choicePieces = response.choices.map((choice) =>
+            splitForTyping(
+              contentToText(choice.message.content ?? null),
+              typing.split,
+              typing.chunkSize
+            )
+          );
+          const pieceCount = Math.max(
+            0,
+            ...choicePieces.map((pieces) => pieces.length)
+          );
+          const delay =
+            typing.duration !== undefined
+              ? typing.duration / Math.max(pieceCount - 1, 1)
+              : typing.interval;
+          logger.debug("Sending content with simulated typing", {
+            model: request.model,
+            split: typing.split,
+            chunks: pieceCount,
+            delay,
+          });
+
+          for (let i = 0; i < pieceCount; i++) {
+            // Nobody is watching a disconnected resumable stream, skip the delay
+            if (i > 0 && delay > 0 && !isCancelled) {
+              await sleep(delay, cancelController.signal);
+            }
+            if (isCancelled && !resumable) {
+              logger.warn("Client disconnected, simulated typing stopped", {
+                model: request.model,
+                sent: i,
+                chunks: pieceCount,
+              });
+              return;
+            }
+            const typingChunk = `data: ${JSON.stringify({
+              id: response.id,
+              object: "chat.completion.chunk",
+              created: response.created,
+              model: response.model,
+              system_fingerprint: response.system_fingerprint,
+              served_model: servedModel,
+              choices: response.choices.flatMap((choice, c) => {
+                const piece = choicePieces[c]![i];
+                if (piece === undefined) {
+                  return [];
+                }
+                return [
+                  {
+                    index: choice.index,
+                    delta: { content: piece },
+                    logprobs: i === 0 ? choice.logprobs : undefined,
+                    finish_reason: null,
+                  },
+                ];
+              }),
+            })}\n\n`;
+            if (!sendEvent(typingChunk)) {
+              return;
+            }
+          }
+        }
+
         // Send content chunk with full content, tool_calls, and function_call (if present)
         // In fake-streaming, we send the full content at once
-        const contentChunk = `data: ${JSON.stringify({
-          id: response.id,
-          object: "chat.completion.chunk",
-          created: response.created,
-          model: response.model,
-          choices: response.choices.map((choice) => {
-            const delta: {
-              content?: string | null;
-              tool_calls?: typeof choice.message.tool_calls;
-              function_call?: typeof choice.message.function_call;
-            } = {};
-
-            // Include content if present (may be null for tool-only responses)
-            if (choice.message.content !== undefined) {
-              delta.content = choice.message.content;
-            }
+        // (with simulated typing the content was already sent, only tool calls remain)
+        const hasToolCalls = response.choices.some(
+          (choice) =>
+            (choice.message.tool_calls &&
+              choice.message.tool_calls.length > 0) ||
+            choice.message.function_call
+        );
+        if (!typing.enabled || hasToolCalls) {
+          const contentChunk = `data: ${JSON.stringify({
+            id: response.id,
+            object: "chat.completion.chunk",
+            created: response.created,
+            model: response.model,
+            system_fingerprint: response.system_fingerprint,
+            served_model: servedModel,
+            choices: response.choices.map((choice) => {
+              const delta: {
+                content?: string | null;
+                tool_calls?: ToolCallDelta[];
+                function_call?: typeof choice.message.function_call;
+              } = {};
 
-            // Include tool_calls if present (new format)
-            if (
-              choice.message.tool_calls &&
-              choice.message.tool_calls.length > 0
-            ) {
-              delta.tool_calls = choice.message.tool_calls;
-            }
+              // Include content if present (may be null for tool-only responses)
+              // Stream deltas only carry text, content parts are flattened
+              if (!typing.enabled && choice.message.content !== undefined) {
+                delta.content = Array.isArray(choice.message.content)
+                  ? contentToText(choice.message.content)
+                  : choice.message.content;
+              }
 
-            // Include function_call if present (old format, for backward compatibility)
-            if (choice.message.function_call) {
-              delta.function_call = choice.message.function_call;
-            }
+              // Include tool_calls if present (new format)
+              // Stream deltas identify each call by its position (index)
+              if (
+                choice.message.tool_calls &&
+                choice.message.tool_calls.length > 0
+              ) {
+                delta.tool_calls = choice.message.tool_calls.map(
+                  (toolCall, index) => ({ index, ...toolCall })
+                );
+              }
 
-            return {
-              index: choice.index,
-              delta,
-              finish_reason: null,
-            };
-          }),
-        })}\n\n`;
-        if (!safeEnqueue(encoder.encode(contentChunk))) {
-          return;
-        } else {
-          logger.debug("Sent content chunk", {
-            model: request.model,
-            length: contentChunk.length,
-          });
+              // Include function_call if present (old format, for backward compatibility)
+              if (choice.message.function_call) {
+                delta.function_call = choice.message.function_call;
+              }
+
+              return {
+                index: choice.index,
+                delta,
+                // Already sent with the first typing chunk
+                logprobs: typing.enabled ? undefined : choice.logprobs,
+                finish_reason: null,
+              };
+            }),
+          })}\n\n`;
+          if (!sendEvent(contentChunk)) {
+            return;
+          } else {
+            logger.debug("Sent content chunk", {
+              model: request.model,
+              length: contentChunk.length,
+            });
+          }
         }
 
         // Send finish chunk with finish_reason
@@ -371,13 +1207,15 @@ async function createFakeStream(
           object: "chat.completion.chunk",
           created: response.created,
           model: response.model,
+          system_fingerprint: response.system_fingerprint,
+          served_model: servedModel,
           choices: response.choices.map((choice) => ({
             index: choice.index,
             delta: {},
             finish_reason: choice.finish_reason,
           })),
         })}\n\n`;
-        if (!safeEnqueue(encoder.encode(finishChunk))) {
+        if (!sendEvent(finishChunk)) {
           return;
         } else {
           logger.debug("Sent finish reason", {
@@ -386,8 +1224,30 @@ async function createFakeStream(
           });
         }
 
+        // Send usage chunk (with empty choices) if requested
+        if (request.stream_options?.include_usage) {
+          const usageChunk = `data: ${JSON.stringify({
+            id: response.id,
+            object: "chat.completion.chunk",
+            created: response.created,
+            model: response.model,
+            system_fingerprint: response.system_fingerprint,
+            served_model: servedModel,
+            choices: [],
+            usage: response.usage ?? null,
+          })}\n\n`;
+          if (!sendEvent(usageChunk)) {
+            return;
+          } else {
+            logger.debug("Sent usage chunk", {
+              model: request.model,
+              length: usageChunk.length,
+            });
+          }
+        }
+
         // Send [DONE] marker
-        if (!safeEnqueue(encoder.encode("data: [DONE]\n\n"))) {
+        if (!sendEvent("data: [DONE]\n\n")) {
           return;
         } else {
           logger.debug("Sent [DONE] marker", {
@@ -414,14 +1274,14 @@ async function createFakeStream(
           messageCount: request.messages.length,
           error: error instanceof Error ? error.message : String(error),
         });
-        if (!isCancelled) {
+        if (!isCancelled || resumable) {
           const errorData = `data: ${JSON.stringify({
             error: {
               message: error instanceof Error ? error.message : String(error),
               type: "completion_error",
             },
           })}\n\n`;
-          if (safeEnqueue(encoder.encode(errorData))) {
+          if (sendEvent(errorData)) {
             try {
               controller.close();
             } catch (closeError) {
@@ -430,6 +1290,8 @@ async function createFakeStream(
             }
           }
         }
+      } finally {
+        resumable?.finish();
       }
     },
     cancel() {
@@ -440,6 +1302,439 @@ async function createFakeStream(
         fakeStreamTimer = null;
       }
       logger.error("Client disconnected, stream cancelled");
+      cancelController.abort();
+      // The buffered result can still be resumed, keep the upstream request
+      if (!resumable) {
+        abortController?.abort();
+      }
+    },
+  });
+}
+
+/**
+ * Create a non-streaming response with whitespace keep-alive
+ * Commits a 200 application/json response immediately and trickles leading
+ * whitespace (valid before a JSON value) every fakeStreamInterval, so idle
+ * timeouts of reverse proxies do not cut the connection. The JSON body
+ * (or a JSON error object, the status is already sent) is written once the
+ * completion finishes.
+ */
+function createWhitespaceKeepAliveResponse(
+  request: ChatCompletionsRequest,
+  abortController?: AbortController
+): Response {
+  const encoder = new TextEncoder();
+  const interval = getConfig().advanced.fakeStreamInterval;
+
+  // Shared state for cleanup
+  let keepAliveTimer: ReturnType<typeof setInterval> | null = null;
+  let isCancelled = false;
+
+  const stopKeepAlive = () => {
+    if (keepAliveTimer) {
+      clearInterval(keepAliveTimer);
+      keepAliveTimer = null;
+    }
+  };
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      // Helper function to safely enqueue data
+      const safeEnqueue = (data: string): boolean => {
+        if (isCancelled) {
+          return false;
+        }
+        try {
+          controller.enqueue(encoder.encode(data));
+          return true;
+        } catch (error) {
+          // Controller might be closed by client
+          isCancelled = true;
+          return false;
+        }
+      };
+
+      keepAliveTimer = setInterval(() => {
+        if (!safeEnqueue(" ")) {
+          stopKeepAlive();
+          return;
+        }
+        logger.debug("Sent whitespace keep-alive", { model: request.model });
+      }, interval);
+
+      let body: unknown;
+      try {
+        let response: ChatCompletionsResponse | null | undefined;
+        let err: Error | null = null;
+        ({ response, err } = await autoContinueCompletion(
+          request,
+          abortController?.signal
+        ));
+
+        if (err || !response) {
+          logger.error("Non-streaming completion request failed", {
+            model: request.model,
+            messageCount: request.messages.length,
+            error: err?.message,
+          });
+          body = {
+            error: {
+              message: `Failed to create completion: ${
+                err?.message ?? "Unknown error"
+              }`,
+              type: "completion_error",
+            },
+          };
+        } else {
+          logger.info("Non-streaming completion request succeeded", {
+            model: request.model,
+            promptTokens: response.usage?.prompt_tokens ?? "unknown",
+            completionTokens: response.usage?.completion_tokens ?? "unknown",
+            totalTokens: response.usage?.total_tokens ?? "unknown",
+          });
+          body = withServedModelField(response);
+        }
+      } catch (error) {
+        logger.error("Non-streaming completion request error", {
+          model: request.model,
+          messageCount: request.messages.length,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        body = {
+          error: {
+            message: `Failed to create completion: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+            type: "completion_error",
+          },
+        };
+      } finally {
+        // Stop the whitespace, also if the completion threw
+        stopKeepAlive();
+      }
+
+      if (safeEnqueue(JSON.stringify(body))) {
+        try {
+          controller.close();
+        } catch (closeError) {
+          // Ignore close errors if already closed
+          logger.error("Controller already closed");
+        }
+      }
+    },
+    cancel() {
+      // Handle client disconnection
+      isCancelled = true;
+      stopKeepAlive();
+      logger.warn("Client disconnected, non-streaming response cancelled", {
+        model: request.model,
+      });
+      abortController?.abort();
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-cache",
+      // Disable nginx response buffering so the whitespace is flushed
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
+
+/**
+ * Warn once per model about configured features passthrough streams skip
+ * Chunks are relayed as they arrive, so there is no complete response to
+ * validate, continue or hedge, and no other model to fall back to.
+ */
+function warnPassthroughIgnored(model: string): void {
+  if (passthroughWarnings.has(model)) {
+    return;
+  }
+  passthroughWarnings.add(model);
+  const { advanced } = getConfig();
+  const ignored = [
+    ProviderRouter.responseValidators(model).length > 0 && "validators",
+    ProviderRouter.getProviderConfig(model)?.think_tags && "think_tags",
+    (advanced.fallbacks[model]?.length ?? 0) > 0 && "fallbacks",
+    advanced.hedging[model] && "hedging",
+    advanced.continuation.enabled && "continuation",
+  ].filter(Boolean);
+  if (ignored.length > 0) {
+    logger.warn("Passthrough streams ignore configured features", {
+      model,
+      ignored,
+    });
+  }
+}
+
+/**
+ * Create a passthrough streaming response
+ * Relays upstream chunks to the client as they arrive. Chunks are held back
+ * until the first one carrying content (text, reasoning or tool calls), so an
+ * empty response can still be retried before anything reaches the client.
+ * Keep-alive packets are sent meanwhile ("comment" strategy: SSE comments,
+ * otherwise empty content chunks).
+ */
+function createPassthroughStream(
+  request: ChatCompletionsRequest,
+  keepAlive: KeepAlive,
+  abortController?: AbortController
+): ReadableStream {
+  const encoder = new TextEncoder();
+  const policy = resolveRetryPolicy(request.model);
+
+  // Shared state for cleanup
+  let iterator: AsyncIterator<ChatCompletionChunk> | null = null;
+  let keepAliveTimer: ReturnType<typeof setInterval> | null = null;
+  let isCancelled = false;
+
+  const stopKeepAlive = () => {
+    if (keepAliveTimer) {
+      clearInterval(keepAliveTimer);
+      keepAliveTimer = null;
+    }
+  };
+
+  // Stop reading an upstream stream that is abandoned, closing its connection
+  const closeIterator = async () => {
+    const abandoned = iterator;
+    iterator = null;
+    try {
+      await abandoned?.return?.();
+    } catch {
+      // The stream already failed
+    }
+  };
+
+  return new ReadableStream({
+    async start(controller) {
+      // Helper function to safely enqueue an SSE data packet
+      const safeEnqueue = (data: string): boolean => {
+        if (isCancelled) {
+          return false;
+        }
+        try {
+          controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+          return true;
+        } catch (error) {
+          // Controller might be closed by client
+          isCancelled = true;
+          return false;
+        }
+      };
+
+      // Keep-alive packet while chunks are held back
+      const tempCreated = Math.floor(Date.now() / 1000);
+      const keepAlivePacket =
+        keepAlive === "comment"
+          ? ": ping\n\n"
+          : `data: ${JSON.stringify({
+              id: `chatcmpl-${Date.now()}`,
+              object: "chat.completion.chunk",
+              created: tempCreated,
+              model: request.model,
+              choices: [
+                { index: 0, delta: { content: "" }, finish_reason: null },
+              ],
+            })}\n\n`;
+      keepAliveTimer = setInterval(() => {
+        if (isCancelled) {
+          stopKeepAlive();
+          return;
+        }
+        try {
+          controller.enqueue(encoder.encode(keepAlivePacket));
+        } catch (error) {
+          isCancelled = true;
+          stopKeepAlive();
+        }
+      }, getConfig().advanced.fakeStreamInterval);
+
+      const sendError = (message: string) => {
+        stopKeepAlive();
+        if (
+          safeEnqueue(
+            JSON.stringify({
+              error: { message, type: "completion_error" },
+            })
+          )
+        ) {
+          try {
+            controller.close();
+          } catch (closeError) {
+            // Ignore close errors if already closed
+            logger.error("Controller already closed");
+          }
+        }
+      };
+
+      let lastError: Error | null = null;
+      for (let i = 1; i <= policy.maxRetries && !isCancelled; i++) {
+        if (lastError) {
+          await sleep(
+            retryDelay(i - 1, policy, lastError),
+            abortController?.signal
+          );
+          if (isCancelled) {
+            return;
+          }
+        }
+
+        let stream: AsyncIterable<ChatCompletionChunk> | null | undefined;
+        let err: Error | null = null;
+        ({ stream, err } = await ProviderRouter.stream(
+          request,
+          abortController?.signal
+        ));
+        if (err || !stream) {
+          lastError = err || new Error("Streaming completion failed");
+          if (!isRetryableError(lastError, policy)) {
+            logger.error(
+              "Passthrough streaming request failed with a non-retryable error",
+              {
+                model: request.model,
+                error: lastError.message,
+                retry: i,
+              }
+            );
+            sendError(lastError.message);
+            return;
+          }
+          logger.error(
+            "Passthrough streaming request failed, trying again...",
+            {
+              model: request.model,
+              error: lastError.message,
+              retry: i,
+            }
+          );
+          if (isKeyRotation(lastError)) {
+            i--;
+          }
+          continue;
+        }
+        iterator = stream[Symbol.asyncIterator]();
+
+        // Hold back chunks until the first one with content
+        const pending: ChatCompletionChunk[] = [];
+        let hasContent = false;
+        try {
+          while (!hasContent && !isCancelled) {
+            const next = await iterator.next();
+            if (next.done) {
+              break;
+            }
+            pending.push(next.value);
+            hasContent = chunkHasContent(next.value);
+          }
+        } catch (error) {
+          lastError = error instanceof Error ? error : new Error(String(error));
+          logger.error(
+            "Passthrough stream failed before content, trying again...",
+            {
+              model: request.model,
+              error: lastError.message,
+              retry: i,
+            }
+          );
+          await closeIterator();
+          continue;
+        }
+        if (isCancelled) {
+          return;
+        }
+        if (!hasContent) {
+          logger.warn(
+            "Passthrough stream returned empty response, trying again...",
+            {
+              model: request.model,
+              retry: i,
+            }
+          );
+          lastError = new Error("Upstream returned an empty response");
+          await closeIterator();
+          continue;
+        }
+
+        // Relay the held back chunks and then the rest as they arrive
+        stopKeepAlive();
+        for (const chunk of pending) {
+          if (!safeEnqueue(JSON.stringify(chunk))) {
+            return;
+          }
+        }
+        try {
+          for (
+            let next = await iterator.next();
+            !next.done;
+            next = await iterator.next()
+          ) {
+            if (!safeEnqueue(JSON.stringify(next.value))) {
+              return;
+            }
+          }
+        } catch (error) {
+          // Content was already sent, the request cannot be retried
+          logger.error("Passthrough stream failed", {
+            model: request.model,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          sendError(error instanceof Error ? error.message : String(error));
+          return;
+        }
+
+        logger.info("Passthrough streaming completion request succeeded", {
+          model: request.model,
+        });
+        if (safeEnqueue("[DONE]")) {
+          try {
+            controller.close();
+          } catch (closeError) {
+            // Ignore close errors if already closed
+            logger.error("Controller already closed");
+          }
+        }
+        return;
+      }
+
+      stopKeepAlive();
+      if (!isCancelled) {
+        const message = `Failed after ${policy.maxRetries} attempts: ${
+          lastError?.message ?? "Unknown error"
+        }`;
+        logger.error("Passthrough streaming completion request failed", {
+          model: request.model,
+          error: message,
+        });
+        sendError(message);
+      }
+    },
+    async cancel() {
+      // Handle client disconnection, stop reading from upstream
+      isCancelled = true;
+      stopKeepAlive();
+      logger.warn("Client disconnected, passthrough stream cancelled", {
+        model: request.model,
+      });
+      abortController?.abort();
+      await closeIterator();
     },
   });
 }
+
+/**
+ * Check whether a stream chunk carries content
+ * (text, reasoning, tool calls or a function call)
+ */
+function chunkHasContent(chunk: ChatCompletionChunk): boolean {
+  return chunk.choices.some(
+    ({ delta }) =>
+      !!delta.content ||
+      !!delta.reasoning_content ||
+      (delta.tool_calls?.length ?? 0) > 0 ||
+      !!delta.function_call
+  );
+}
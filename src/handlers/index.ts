@@ -1,2 +1,4 @@
+export * from "./admin";
 export * from "./completion";
 export * from "./models";
+export * from "./resume";
@@ -0,0 +1,201 @@
+import { getConfig } from "../config";
+import { logger } from "../logger";
+
+// Resumable streams by stream ID, removed once their TTL expires
+const streams = new Map<string, ResumableStream>();
+
+/**
+ * Buffered events of a fake stream, kept so a reconnecting client can
+ * receive the remainder (or the full result) without a second upstream call
+ *
+ * SSE event IDs have the format `{streamId}:{position}`, where position is
+ * the number of events sent so far (keep-alive packets are not counted).
+ */
+export class ResumableStream {
+  readonly id: string;
+  // Client key that created the stream, only the same key may resume it
+  readonly owner?: string;
+  private events: string[] = [];
+  private finished = false;
+  private waiters = new Set<() => void>();
+
+  constructor(id: string, owner?: string) {
+    this.id = id;
+    this.owner = owner;
+  }
+
+  /**
+   * Buffer an SSE event (`data: ...\n\n`)
+   * @returns Position after the event
+   */
+  push(event: string): number {
+    this.events.push(event);
+    this.notify();
+    return this.events.length;
+  }
+
+  /**
+   * Mark the stream as finished and schedule its removal after the TTL
+   */
+  finish(): void {
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+    this.notify();
+
+    const ttl = getConfig().advanced.resume.ttl;
+    setTimeout(() => {
+      streams.delete(this.id);
+      logger.debug("Resumable stream expired", { streamId: this.id });
+    }, ttl).unref();
+  }
+
+  /**
+   * Add the SSE event ID to a buffered event
+   */
+  format(event: string, position: number): string {
+    return `id: ${this.id}:${position}\n${event}`;
+  }
+
+  /**
+   * Read the buffered events from a position, waiting for new ones until
+   * the stream is finished
+   * @param from Number of events the client already received
+   * @returns SSE events with event IDs
+   */
+  async *read(from: number): AsyncGenerator<string> {
+    let position = Math.min(from, this.events.length);
+    while (true) {
+      while (position < this.events.length) {
+        position++;
+        yield this.format(this.events[position - 1]!, position);
+      }
+      if (this.finished) {
+        return;
+      }
+      await new Promise<void>((resolve) => this.waiters.add(resolve));
+    }
+  }
+
+  private notify(): void {
+    for (const resolve of this.waiters) {
+      resolve();
+    }
+    this.waiters.clear();
+  }
+}
+
+/**
+ * Create and register a resumable stream
+ * @param owner Client key of the request
+ */
+export function createResumableStream(owner?: string): ResumableStream {
+  const stream = new ResumableStream(crypto.randomUUID(), owner);
+  streams.set(stream.id, stream);
+  return stream;
+}
+
+/**
+ * Parse an SSE Last-Event-ID (`{streamId}:{position}`)
+ * @returns Stream ID and position, or null if the ID is malformed
+ */
+export function parseLastEventId(
+  lastEventId: string
+): { streamId: string; position: number } | null {
+  const separator = lastEventId.lastIndexOf(":");
+  if (separator <= 0) {
+    return null;
+  }
+  const position = Number(lastEventId.slice(separator + 1));
+  if (!Number.isInteger(position) || position < 0) {
+    return null;
+  }
+  return { streamId: lastEventId.slice(0, separator), position };
+}
+
+/**
+ * Handle a resume request of a fake stream
+ * Replays the buffered events after the given position, then follows the
+ * stream live if it is still running. Comment keep-alive packets are sent
+ * while waiting for new events.
+ * @param streamId Stream ID (X-Stream-Id header or Last-Event-ID)
+ * @param position Number of events the client already received (0 for the full result)
+ * @param clientKey Client key of the request
+ * @returns SSE stream, or null if the stream is unknown or expired
+ */
+export function handleResume(
+  streamId: string,
+  position: number,
+  clientKey?: string
+): ReadableStream | null {
+  const stream = streams.get(streamId);
+  if (!stream || stream.owner !== clientKey) {
+    logger.warn("Resumable stream not found", { streamId });
+    return null;
+  }
+  logger.info("Resuming fake stream", { streamId, position });
+
+  const encoder = new TextEncoder();
+  const interval = getConfig().advanced.fakeStreamInterval;
+
+  // Shared state for cleanup
+  let keepAliveTimer: ReturnType<typeof setInterval> | null = null;
+  let isCancelled = false;
+
+  const stopKeepAlive = () => {
+    if (keepAliveTimer) {
+      clearInterval(keepAliveTimer);
+      keepAliveTimer = null;
+    }
+  };
+
+  return new ReadableStream({
+    async start(controller) {
+      // Helper function to safely enqueue data
+      const safeEnqueue = (data: string): boolean => {
+        if (isCancelled) {
+          return false;
+        }
+        try {
+          controller.enqueue(encoder.encode(data));
+          return true;
+        } catch (error) {
+          // Controller might be closed by client
+          isCancelled = true;
+          return false;
+        }
+      };
+
+      keepAliveTimer = setInterval(() => {
+        if (!safeEnqueue(": ping\n\n")) {
+          stopKeepAlive();
+        }
+      }, interval);
+
+      for await (const event of stream.read(position)) {
+        if (!safeEnqueue(event)) {
+          stopKeepAlive();
+          return;
+        }
+      }
+      stopKeepAlive();
+
+      logger.info("Resumed fake stream finished", { streamId });
+      try {
+        controller.close();
+      } catch (closeError) {
+        // Ignore close errors if already closed
+        logger.error("Controller already closed");
+      }
+    },
+    cancel() {
+      // Handle client disconnection, the buffer stays available
+      isCancelled = true;
+      stopKeepAlive();
+      logger.warn("Client disconnected, resumed stream cancelled", {
+        streamId,
+      });
+    },
+  });
+}
@@ -2,6 +2,7 @@ import { Elysia } from "elysia";
 import { loadConfig, setConfig } from "./config";
 import { logger } from "./logger";
 import { ProviderManager } from "./providers/manager";
+import { AdminRoutes } from "./routes/admin";
 import { HealthRoutes } from "./routes/health";
 import { OpenAIRoutes } from "./routes/openai";
 import { getGitRevision } from "./utils/git";
@@ -19,6 +20,20 @@ logger.info("Configuration loaded", {
   port: config.app.port,
   logLevel: config.logging?.level ?? "info",
 });
+if (config.advanced.maxRetries !== undefined) {
+  logger.warn(
+    "[advanced] maxRetries is deprecated, use [advanced.retry] maxRetries instead",
+    {
+      maxRetries: config.advanced.maxRetries,
+      ignored: config.advanced.retry.maxRetries !== undefined,
+    }
+  );
+}
+if (config.advanced.resume.enabled && config.advanced.abortOnDisconnect) {
+  logger.warn(
+    "[advanced] abortOnDisconnect does not apply to resumable fake streams, their upstream requests go on after a client disconnect"
+  );
+}
 
 // Initialize providers
 let err: Error | null = null;
@@ -31,10 +46,14 @@ if (err) {
 }
 
 // Start server
-const app = new Elysia().use(HealthRoutes).use(OpenAIRoutes).listen({
-  hostname: config.app.host,
-  port: config.app.port,
-});
+const app = new Elysia()
+  .use(HealthRoutes)
+  .use(OpenAIRoutes)
+  .use(AdminRoutes)
+  .listen({
+    hostname: config.app.host,
+    port: config.app.port,
+  });
 
 logger.info(
   `Server started at http://${app.server?.hostname}:${app.server?.port}`
@@ -1,5 +1,5 @@
 import { Elysia } from "elysia";
-import { isValidKey } from "../config";
+import { isAdminKey, isValidKey } from "../config";
 import { logger } from "../logger";
 
 const BearerTokenPrefix = "Bearer ";
@@ -41,3 +41,28 @@ export const AuthMiddleware = (app: Elysia) =>
 
       logger.debug("Auth success", { keyPrefix: token.slice(0, 8) + "..." });
     });
+
+/**
+ * Authentication middleware for the admin endpoints
+ * Only keys listed in app.admin_keys are accepted
+ */
+export const AdminMiddleware = (app: Elysia) =>
+  app
+    .derive(({ headers }) => {
+      const auth = headers.authorization ?? "";
+      const token = auth.startsWith(BearerTokenPrefix)
+        ? auth.slice(BearerTokenPrefix.length).trim()
+        : null;
+      return { token };
+    })
+    .onBeforeHandle(({ token }) => {
+      if (!token)
+        return newAuthError("Missing or invalid Authorization header");
+
+      if (!isAdminKey(token)) {
+        logger.warn("Invalid admin key", {
+          keyPrefix: token.slice(0, 8) + "...",
+        });
+        return newAuthError("Invalid admin key");
+      }
+    });
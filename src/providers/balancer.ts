@@ -0,0 +1,240 @@
+import { getConfig, type VirtualModel } from "../config";
+import { logger } from "../logger";
+import { Result } from "../type/result";
+import { isUpstreamFailure } from "../utils";
+import { ProviderManager } from "./manager";
+import type { ModelAlias } from "./types";
+
+// Weight of the newest sample in the latency and error rate averages
+const EWMA_ALPHA = 0.3;
+
+/**
+ * Observed statistics of a virtual model member
+ */
+interface MemberStats {
+  inFlight: number;
+  latency?: number; // moving average of successful requests, milliseconds
+  errorRate: number; // moving average of failures (0-1)
+  consecutiveFailures: number;
+  unhealthyUntil: number; // timestamp, the member is skipped until then
+}
+
+/**
+ * Load balancer for virtual models
+ *
+ * Virtual models ([models."<name>"] in the configuration) group several
+ * ModelAliases serving the same model, e.g. through different relays.
+ * Every request picks one member using the strategy of the virtual model
+ * (see VirtualModelSchema). Members failing unhealthy_after times in a row
+ * are skipped for the cooldown, as are members whose circuit breaker is
+ * open; if no healthy member is left, all available members are used again.
+ *
+ * Statistics are kept per ModelAlias, so a member shared by several virtual
+ * models has a single health state.
+ */
+class LoadBalancerImpl {
+  private stats = new Map<ModelAlias, MemberStats>();
+  // Round-robin position by virtual model name
+  private positions = new Map<string, number>();
+
+  /**
+   * Get the names of all virtual models
+   */
+  virtualModels(): string[] {
+    return Object.keys(getConfig().models);
+  }
+
+  /**
+   * Check if a model name refers to a virtual model
+   */
+  isVirtualModel(model: string): boolean {
+    return Object.hasOwn(getConfig().models, model);
+  }
+
+  /**
+   * Select the member serving the next request of a virtual model
+   * Only members whose provider is available are considered.
+   * @param name Virtual model name
+   * @returns Result<ModelAlias>
+   * - If successful: Result with data containing the selected member, err = null
+   * - If failed: Result with err if the model is unknown or has no available member
+   */
+  select(name: string): Result<ModelAlias> {
+    const virtualModel = getConfig().models[name];
+    if (!virtualModel) {
+      return Result<ModelAlias>(new Error(`Virtual model "${name}" not found`));
+    }
+
+    const modelAliasesMapping = ProviderManager.getModelAliasesMapping();
+    const available = virtualModel.members.filter((member) =>
+      modelAliasesMapping.has(member)
+    );
+    if (available.length === 0) {
+      logger.warn("Virtual model has no available member", { name });
+      return Result<ModelAlias>(
+        new Error(`Virtual model "${name}" has no available member`)
+      );
+    }
+
+    const now = Date.now();
+    let candidates = available.filter(
+      (member) =>
+        this.getStats(member).unhealthyUntil <= now &&
+        !isCircuitOpen(member, modelAliasesMapping.get(member)!)
+    );
+    if (candidates.length === 0) {
+      logger.warn("All members of virtual model are unhealthy, using all", {
+        name,
+      });
+      candidates = available;
+    }
+
+    // Rotate the candidates, so ties of the comparing strategies are spread
+    const position = this.positions.get(name) ?? 0;
+    this.positions.set(name, position + 1);
+    const offset = position % candidates.length;
+    candidates = [...candidates.slice(offset), ...candidates.slice(0, offset)];
+
+    const member = this.pick(virtualModel, candidates);
+    logger.debug("Selected virtual model member", {
+      name,
+      strategy: virtualModel.strategy,
+      member,
+    });
+    return Result<ModelAlias>(member);
+  }
+
+  /**
+   * Track a request to a member
+   * @param name Virtual model name
+   * @param member Selected member
+   * @returns Callback to call once the request finished, with its error if it failed
+   */
+  track(name: string, member: ModelAlias): (err?: Error | null) => void {
+    const stats = this.getStats(member);
+    const startedAt = Date.now();
+    stats.inFlight++;
+
+    return (err) => {
+      stats.inFlight--;
+      if (err && !isUpstreamFailure(err)) {
+        return;
+      }
+      stats.errorRate = ewma(stats.errorRate, err ? 1 : 0);
+      if (!err) {
+        stats.latency = ewma(stats.latency, Date.now() - startedAt);
+        stats.consecutiveFailures = 0;
+        return;
+      }
+
+      stats.consecutiveFailures++;
+      const virtualModel = getConfig().models[name];
+      if (
+        virtualModel &&
+        stats.consecutiveFailures >= virtualModel.unhealthy_after
+      ) {
+        stats.unhealthyUntil = Date.now() + virtualModel.cooldown;
+        stats.consecutiveFailures = 0;
+        logger.warn("Virtual model member marked unhealthy", {
+          name,
+          member,
+          cooldown: virtualModel.cooldown,
+          error: err.message,
+        });
+      }
+    };
+  }
+
+  /**
+   * Pick a member from the candidates using the strategy of the virtual model
+   * @private
+   */
+  private pick(virtualModel: VirtualModel, candidates: ModelAlias[]): string {
+    switch (virtualModel.strategy) {
+      case "round_robin":
+        return candidates[0]!;
+      case "weighted": {
+        const weightOf = (member: ModelAlias) =>
+          virtualModel.weights[member] ?? 1;
+        const total = candidates.reduce(
+          (sum, member) => sum + weightOf(member),
+          0
+        );
+        let threshold = Math.random() * total;
+        for (const member of candidates) {
+          threshold -= weightOf(member);
+          if (threshold < 0) {
+            return member;
+          }
+        }
+        return candidates.at(-1)!;
+      }
+      case "least_in_flight":
+        return this.minBy(candidates, (stats) => stats.inFlight);
+      case "latency":
+        // Members without observations are tried first
+        return this.minBy(candidates, (stats) => stats.latency ?? 0);
+      case "error_rate":
+        return this.minBy(candidates, (stats) => stats.errorRate);
+    }
+  }
+
+  /**
+   * Get the candidate with the lowest statistic (the first one on ties)
+   * @private
+   */
+  private minBy(
+    candidates: ModelAlias[],
+    value: (stats: MemberStats) => number
+  ): ModelAlias {
+    let best = candidates[0]!;
+    for (const member of candidates.slice(1)) {
+      if (value(this.getStats(member)) < value(this.getStats(best))) {
+        best = member;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Get the statistics of a member, creating them on first use
+   * @private
+   */
+  private getStats(member: ModelAlias): MemberStats {
+    let stats = this.stats.get(member);
+    if (!stats) {
+      stats = {
+        inFlight: 0,
+        errorRate: 0,
+        consecutiveFailures: 0,
+        unhealthyUntil: 0,
+      };
+      this.stats.set(member, stats);
+    }
+    return stats;
+  }
+}
+
+/**
+ * Check if the circuit breaker of a member rejects requests
+ */
+function isCircuitOpen(member: ModelAlias, providerName: string): boolean {
+  const model = member.slice(providerName.length + 1);
+  return (
+    ProviderManager.getCircuitBreaker(providerName, model)?.isOpen() ?? false
+  );
+}
+
+/**
+ * Exponentially weighted moving average
+ */
+function ewma(average: number | undefined, sample: number): number {
+  return average === undefined
+    ? sample
+    : average + EWMA_ALPHA * (sample - average);
+}
+
+/**
+ * Global load balancer instance
+ */
+export const LoadBalancer = new LoadBalancerImpl();
@@ -0,0 +1,191 @@
+import type { CircuitBreakerPolicy } from "../config/schema";
+import { logger } from "../logger";
+import { isUpstreamFailure } from "../utils";
+
+/**
+ * Circuit breaker state
+ * - closed: requests pass, failures are counted
+ * - open: requests are rejected until openDuration has passed
+ * - half_open: a limited number of probe requests pass
+ */
+export type CircuitState = "closed" | "open" | "half_open";
+
+/**
+ * Callback recording the outcome of a request let through a circuit,
+ * with its error if it failed
+ */
+export type CircuitRelease = (err?: Error | null) => void;
+
+/**
+ * State of a circuit breaker as reported by the health endpoint
+ */
+export interface CircuitBreakerStatus {
+  name: string;
+  state: CircuitState;
+  consecutive_failures: number;
+  opened_at: string | null;
+  retry_at: string | null; // when the next probe is allowed (open only)
+}
+
+/**
+ * Circuit breaker of a provider (or a ModelAlias)
+ *
+ * Opens after failureThreshold consecutive failures, or windowFailures
+ * failures within the window. While open, requests are rejected without
+ * contacting the upstream. After openDuration the circuit half-opens and
+ * lets up to `probes` requests through: once that many succeed it closes,
+ * a failing probe opens it again.
+ * Only upstream failures count (see isUpstreamFailure).
+ */
+export class CircuitBreaker {
+  readonly name: string;
+  private policy: CircuitBreakerPolicy;
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private failureTimes: number[] = [];
+  private openedAt = 0;
+  private probesInFlight = 0;
+  private probeSuccesses = 0;
+
+  constructor(name: string, policy: CircuitBreakerPolicy) {
+    this.name = name;
+    this.policy = policy;
+  }
+
+  /**
+   * Milliseconds until the next probe is allowed (0 if not open)
+   */
+  get retryAfter(): number {
+    if (this.state !== "open") {
+      return 0;
+    }
+    return Math.max(0, this.openedAt + this.policy.openDuration - Date.now());
+  }
+
+  /**
+   * Check if a request would be rejected, without taking a probe slot
+   */
+  isOpen(): boolean {
+    if (this.state === "half_open") {
+      return this.probesInFlight >= this.policy.probes;
+    }
+    return this.state === "open" && this.retryAfter > 0;
+  }
+
+  /**
+   * Let a request through the circuit
+   * @returns Callback to call once the request finished, with its error if
+   *   it failed, or null if the request is rejected
+   */
+  acquire(): CircuitRelease | null {
+    if (this.state === "open") {
+      if (this.retryAfter > 0) {
+        return null;
+      }
+      this.transition("half_open");
+    }
+
+    const probe = this.state === "half_open";
+    if (probe) {
+      if (this.probesInFlight >= this.policy.probes) {
+        return null;
+      }
+      this.probesInFlight++;
+    }
+
+    return (err) => {
+      if (probe && this.probesInFlight > 0) {
+        this.probesInFlight--;
+      }
+      if (err && !isUpstreamFailure(err)) {
+        return;
+      }
+      if (err) {
+        this.recordFailure(probe);
+      } else {
+        this.recordSuccess(probe);
+      }
+    };
+  }
+
+  /**
+   * Get the state for the health endpoint
+   */
+  status(): CircuitBreakerStatus {
+    return {
+      name: this.name,
+      state: this.state,
+      consecutive_failures: this.consecutiveFailures,
+      opened_at:
+        this.state !== "closed" ? new Date(this.openedAt).toISOString() : null,
+      retry_at:
+        this.state === "open"
+          ? new Date(this.openedAt + this.policy.openDuration).toISOString()
+          : null,
+    };
+  }
+
+  private recordSuccess(probe: boolean): void {
+    this.consecutiveFailures = 0;
+    if (probe && this.state === "half_open") {
+      this.probeSuccesses++;
+      if (this.probeSuccesses >= this.policy.probes) {
+        this.transition("closed");
+      }
+    }
+  }
+
+  private recordFailure(probe: boolean): void {
+    const now = Date.now();
+    this.consecutiveFailures++;
+    this.failureTimes = this.failureTimes.filter(
+      (time) => time > now - this.policy.window
+    );
+    this.failureTimes.push(now);
+
+    if (probe && this.state === "half_open") {
+      this.transition("open");
+      return;
+    }
+    if (this.state !== "closed") {
+      return;
+    }
+    if (
+      this.consecutiveFailures >= this.policy.failureThreshold ||
+      (this.policy.windowFailures !== undefined &&
+        this.failureTimes.length >= this.policy.windowFailures)
+    ) {
+      this.transition("open");
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    const from = this.state;
+    this.state = state;
+    switch (state) {
+      case "open":
+        this.openedAt = Date.now();
+        logger.warn("Circuit breaker opened", {
+          name: this.name,
+          from,
+          consecutiveFailures: this.consecutiveFailures,
+          windowFailures: this.failureTimes.length,
+          openDuration: this.policy.openDuration,
+        });
+        break;
+      case "half_open":
+        this.probesInFlight = 0;
+        this.probeSuccesses = 0;
+        logger.info("Circuit breaker half-open, probing", {
+          name: this.name,
+          probes: this.policy.probes,
+        });
+        break;
+      case "closed":
+        this.consecutiveFailures = 0;
+        this.failureTimes = [];
+        logger.info("Circuit breaker closed", { name: this.name });
+        break;
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { chatRequest, configure } from "../test/setup";
+import { ProviderRouter } from "./router";
+
+const dir = mkdtempSync(join(tmpdir(), "cassettes-"));
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+function cassettes(): string[] {
+  return readdirSync(dir).filter((file) => file !== "models.json");
+}
+
+describe("cassette recording", () => {
+  test("cancelled requests are not recorded", async () => {
+    await configure({
+      providers: { mock: { type: "mock", latency: 200, record: dir } },
+    });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+    const { err } = await ProviderRouter.completion(
+      chatRequest("mock/mock"),
+      controller.signal
+    );
+    expect(err).not.toBeNull();
+    await Bun.sleep(50);
+    expect(cassettes()).toEqual([]);
+
+    const { response } = await ProviderRouter.completion(
+      chatRequest("mock/mock")
+    );
+    expect(response).not.toBeNull();
+    await Bun.sleep(50);
+    expect(cassettes()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,478 @@
+import { mkdirSync } from "node:fs";
+import { join } from "node:path";
+import type { ProviderConfig } from "../config/schema";
+import { logger } from "../logger";
+import type {
+  ChatCompletionChunk,
+  ChatCompletionsRequest,
+  ChatCompletionsResponse,
+} from "../schemas/openai";
+import { UpstreamError } from "../type/error";
+import { Result } from "../type/result";
+import { isCancellation } from "../utils/retry";
+import { getLocalISOString } from "../utils/time";
+import type { ModelsList, ProviderClient } from "./types";
+
+/**
+ * A single recorded upstream call: a response, the chunks of a stream or an
+ * error (streams failing midway have both chunks and an error)
+ * Upstream errors keep their status, code and Retry-After delay, so retries
+ * and circuit breakers behave the same on replay.
+ */
+interface CassetteInteraction {
+  recorded_at: string;
+  response?: ChatCompletionsResponse;
+  chunks?: ChatCompletionChunk[];
+  error?: string;
+  status?: number;
+  code?: string;
+  retry_after?: number;
+}
+
+/**
+ * Cassette file content, one file per normalized request hash
+ * Identical requests (e.g. retries) append interactions in order
+ */
+interface Cassette {
+  hash: string;
+  request: unknown;
+  interactions: CassetteInteraction[];
+}
+
+const MODELS_CASSETTE = "models.json";
+
+/**
+ * Record/replay ("cassette") provider client wrapper
+ *
+ * - record: forwards every call to the wrapped client and writes each
+ *   request/response pair to `{dir}/{hash}.json`
+ * - replay: serves calls from previously recorded files without touching
+ *   the wrapped client (and therefore the network)
+ *
+ * Interactions of the same request are replayed in recorded order, the last
+ * one is repeated once they are exhausted.
+ *
+ * Streaming requests are recorded separately from non-streaming ones, as the
+ * list of chunks. The wrapper only streams if the wrapped client does, so
+ * the stream mode of the provider is unchanged.
+ */
+export class CassetteProviderClient implements ProviderClient {
+  private client: ProviderClient;
+  private mode: "record" | "replay";
+  private dir: string;
+  private cassettes = new Map<string, Cassette>();
+  // Replay position per request hash
+  private replayPositions = new Map<string, number>();
+  // Serializes cassette writes so an older snapshot never overwrites a newer one
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  stream?: ProviderClient["stream"];
+
+  constructor(client: ProviderClient, mode: "record" | "replay", dir: string) {
+    this.client = client;
+    this.mode = mode;
+    this.dir = dir;
+
+    if (mode === "record") {
+      mkdirSync(dir, { recursive: true });
+    }
+    if (client.stream) {
+      this.stream = (request, signal) => this.streamCompletion(request, signal);
+    }
+  }
+
+  getName(): string {
+    return this.client.getName();
+  }
+
+  async create(): Promise<Result<void>> {
+    logger.info(`[Cassette] ${this.mode} enabled`, {
+      name: this.getName(),
+      dir: this.dir,
+    });
+    if (this.mode === "record") {
+      return this.client.create();
+    }
+
+    // Replay mode only needs the recorded models list
+    let models: ModelsList | null | undefined;
+    let err: Error | null = null;
+    ({ models, err } = await this.models());
+    if (err || !models) {
+      return Result<void>(err || new Error("Failed to load recorded models"));
+    }
+    return Result<void>(undefined as void);
+  }
+
+  async completion(
+    request: ChatCompletionsRequest,
+    signal?: AbortSignal
+  ): Promise<Result<ChatCompletionsResponse>> {
+    const normalized = normalizeRequest(request);
+    const hash = hashRequest(normalized);
+
+    if (this.mode === "replay") {
+      let interaction: CassetteInteraction | null | undefined;
+      let err: Error | null = null;
+      ({ interaction, err } = await this.replay(hash));
+      if (err || !interaction?.response) {
+        return Result<ChatCompletionsResponse>(
+          err || interactionError(interaction)
+        );
+      }
+      return Result<ChatCompletionsResponse>(interaction.response);
+    }
+
+    let response: ChatCompletionsResponse | null | undefined;
+    let err: Error | null = null;
+    ({ response, err } = await this.client.completion(request, signal));
+
+    if (!isCancelled(err, signal)) {
+      await this.record(
+        hash,
+        normalized,
+        err || !response
+          ? errorInteraction(err || new Error("Completion failed"))
+          : { recorded_at: getLocalISOString(), response }
+      );
+    }
+
+    if (err || !response) {
+      return Result<ChatCompletionsResponse>(
+        err || new Error("Completion failed")
+      );
+    }
+    return Result<ChatCompletionsResponse>(response);
+  }
+
+  async models(): Promise<Result<ModelsList>> {
+    if (this.mode === "record") {
+      return this.client.models();
+    }
+    return this.replayModels();
+  }
+
+  async refreshModels(): Promise<Result<ModelsList>> {
+    if (this.mode === "replay") {
+      return this.replayModels();
+    }
+
+    let models: ModelsList | null | undefined;
+    let err: Error | null = null;
+    ({ models, err } = await this.client.refreshModels());
+    if (err || !models) {
+      return Result<ModelsList>(err || new Error("Failed to refresh models"));
+    }
+    this.write(MODELS_CASSETTE, { models });
+    return Result<ModelsList>(models);
+  }
+
+  /**
+   * Streaming completion, recorded as the list of chunks
+   * Only streams that end (completely or with an error) are recorded, not
+   * the ones abandoned by the reader or cancelled by the signal.
+   * @private
+   */
+  private async streamCompletion(
+    request: ChatCompletionsRequest,
+    signal?: AbortSignal
+  ): Promise<Result<AsyncIterable<ChatCompletionChunk>>> {
+    const normalized = normalizeRequest(request, true);
+    const hash = hashRequest(normalized);
+
+    if (this.mode === "replay") {
+      let interaction: CassetteInteraction | null | undefined;
+      let err: Error | null = null;
+      ({ interaction, err } = await this.replay(hash));
+      if (err || !interaction?.chunks) {
+        return Result<AsyncIterable<ChatCompletionChunk>>(
+          err || interactionError(interaction)
+        );
+      }
+      return Result<AsyncIterable<ChatCompletionChunk>>(
+        replayChunks(interaction)
+      );
+    }
+
+    let stream: AsyncIterable<ChatCompletionChunk> | null | undefined;
+    let err: Error | null = null;
+    ({ stream, err } = await this.client.stream!(request, signal));
+    if (err || !stream) {
+      err = err || new Error("Streaming completion failed");
+      if (!isCancelled(err, signal)) {
+        await this.record(hash, normalized, errorInteraction(err));
+      }
+      return Result<AsyncIterable<ChatCompletionChunk>>(err);
+    }
+    return Result<AsyncIterable<ChatCompletionChunk>>(
+      this.recordChunks(hash, normalized, stream, signal)
+    );
+  }
+
+  /**
+   * Relay the chunks of a stream, recording them once it ended
+   * @private
+   */
+  private async *recordChunks(
+    hash: string,
+    normalized: unknown,
+    stream: AsyncIterable<ChatCompletionChunk>,
+    signal?: AbortSignal
+  ): AsyncGenerator<ChatCompletionChunk> {
+    const chunks: ChatCompletionChunk[] = [];
+    try {
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+        yield chunk;
+      }
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      if (!isCancelled(err, signal)) {
+        await this.record(hash, normalized, {
+          ...errorInteraction(err),
+          chunks,
+        });
+      }
+      throw error;
+    }
+    await this.record(hash, normalized, {
+      recorded_at: getLocalISOString(),
+      chunks,
+    });
+  }
+
+  /**
+   * Append an interaction to the cassette of a request
+   * @private
+   */
+  private async record(
+    hash: string,
+    normalized: unknown,
+    interaction: CassetteInteraction
+  ): Promise<void> {
+    const cassette = (await this.loadCassette(hash)) ?? {
+      hash,
+      request: normalized,
+      interactions: [],
+    };
+    cassette.interactions.push(interaction);
+    this.cassettes.set(hash, cassette);
+    this.write(`${hash}.json`, cassette);
+    logger.debug("[Cassette] Recorded completion", {
+      name: this.getName(),
+      hash,
+      interaction: cassette.interactions.length,
+    });
+  }
+
+  /**
+   * Get the next recorded interaction of a request
+   * @private
+   */
+  private async replay(hash: string): Promise<Result<CassetteInteraction>> {
+    const cassette = await this.loadCassette(hash);
+    if (!cassette || cassette.interactions.length === 0) {
+      logger.warn("[Cassette] No recorded completion for request", {
+        name: this.getName(),
+        hash,
+      });
+      return Result<CassetteInteraction>(
+        new Error(`No recorded completion for request (hash: ${hash})`)
+      );
+    }
+
+    const position = this.replayPositions.get(hash) ?? 0;
+    const interaction =
+      cassette.interactions[
+        Math.min(position, cassette.interactions.length - 1)
+      ]!;
+    this.replayPositions.set(hash, position + 1);
+    logger.debug("[Cassette] Replayed completion", {
+      name: this.getName(),
+      hash,
+      interaction: position + 1,
+    });
+    return Result<CassetteInteraction>(interaction);
+  }
+
+  /**
+   * Serve the models list from the recorded cassette
+   * @private
+   */
+  private async replayModels(): Promise<Result<ModelsList>> {
+    const file = Bun.file(join(this.dir, MODELS_CASSETTE));
+    if (!(await file.exists())) {
+      return Result<ModelsList>(
+        new Error(`No recorded models list in "${this.dir}"`)
+      );
+    }
+    try {
+      const { models } = (await file.json()) as { models: ModelsList };
+      return Result<ModelsList>(models);
+    } catch (error) {
+      return Result<ModelsList>(
+        new Error(
+          `Failed to read recorded models list: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        )
+      );
+    }
+  }
+
+  /**
+   * Load a cassette from memory or disk
+   * @private
+   */
+  private async loadCassette(hash: string): Promise<Cassette | null> {
+    const cached = this.cassettes.get(hash);
+    if (cached) {
+      return cached;
+    }
+
+    const file = Bun.file(join(this.dir, `${hash}.json`));
+    if (!(await file.exists())) {
+      return null;
+    }
+    try {
+      const cassette = (await file.json()) as Cassette;
+      this.cassettes.set(hash, cassette);
+      return cassette;
+    } catch (error) {
+      logger.error("[Cassette] Failed to read cassette", {
+        name: this.getName(),
+        hash,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Queue a JSON file write into the cassette directory
+   * @private
+   */
+  private write(fileName: string, content: unknown): void {
+    const path = join(this.dir, fileName);
+    const data = JSON.stringify(content, null, 2);
+    this.writeQueue = this.writeQueue
+      .then(() => Bun.write(path, data))
+      .catch((error) => {
+        logger.error("[Cassette] Failed to write cassette", {
+          name: this.getName(),
+          path,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }
+}
+
+/**
+ * Normalize a request for hashing
+ * - object keys are sorted, undefined values dropped
+ * - stream is removed for non-streaming requests (forced to false upstream),
+ *   and set for streaming ones so they are recorded separately
+ */
+function normalizeRequest(
+  request: ChatCompletionsRequest,
+  stream = false
+): unknown {
+  const { stream: _, ...rest } = request;
+  return sortKeys(stream ? { ...rest, stream: true } : rest);
+}
+
+function hashRequest(normalized: unknown): string {
+  return new Bun.CryptoHasher("sha256")
+    .update(JSON.stringify(normalized))
+    .digest("hex");
+}
+
+/**
+ * Check if a call was cancelled (client disconnect, hedge that lost)
+ * Cancellations say nothing about the upstream and are not recorded, they
+ * would be replayed as failures.
+ */
+function isCancelled(err: Error | null, signal?: AbortSignal): boolean {
+  return !!signal?.aborted || (!!err && isCancellation(err));
+}
+
+/**
+ * Record an error, with the details of upstream errors
+ */
+function errorInteraction(err: Error): CassetteInteraction {
+  return {
+    recorded_at: getLocalISOString(),
+    error: err.message,
+    ...(err instanceof UpstreamError && {
+      status: err.status,
+      code: err.code,
+      retry_after: err.retryAfter,
+    }),
+  };
+}
+
+/**
+ * Restore the error of a recorded interaction
+ * Errors recorded with a status or code are replayed as UpstreamError.
+ */
+function interactionError(
+  interaction: CassetteInteraction | null | undefined
+): Error {
+  const message = interaction?.error ?? "Completion failed";
+  if (interaction?.status === undefined && interaction?.code === undefined) {
+    return new Error(message);
+  }
+  return new UpstreamError(message, {
+    status: interaction.status,
+    code: interaction.code,
+    retryAfter: interaction.retry_after,
+  });
+}
+
+/**
+ * Replay the chunks of a recorded stream, then its error if it failed midway
+ */
+async function* replayChunks(
+  interaction: CassetteInteraction
+): AsyncGenerator<ChatCompletionChunk> {
+  yield* interaction.chunks ?? [];
+  if (interaction.error) {
+    throw interactionError(interaction);
+  }
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  const sorted: Record<string, unknown> = {};
+  for (const key of Object.keys(value).sort()) {
+    const item = (value as Record<string, unknown>)[key];
+    if (item !== undefined) {
+      sorted[key] = sortKeys(item);
+    }
+  }
+  return sorted;
+}
+
+/**
+ * Wrap a provider client with record/replay if configured
+ * @param client Provider client created from configuration
+ * @param config Provider configuration
+ * @returns The wrapped client, or the client itself if neither is enabled
+ */
+export function withCassette(
+  client: ProviderClient,
+  config: ProviderConfig
+): ProviderClient {
+  if (config.record) {
+    return new CassetteProviderClient(client, "record", config.record);
+  }
+  if (config.replay) {
+    return new CassetteProviderClient(client, "replay", config.replay);
+  }
+  return client;
+}
@@ -0,0 +1,618 @@
+import axios, { type AxiosInstance } from "axios";
+import type { z } from "zod";
+import { logger } from "../../logger";
+import {
+  AnthropicErrorSchema,
+  AnthropicMessagesResponseSchema,
+  AnthropicModelsListResponseSchema,
+  type AnthropicContentBlock,
+  type AnthropicMessage,
+  type AnthropicMessagesRequest,
+  type AnthropicMessagesResponse,
+  type AnthropicModelsListResponse,
+} from "../../schemas/anthropic";
+import type {
+  ChatCompletionsRequest,
+  ChatCompletionsResponse,
+  ChatMessage,
+} from "../../schemas/openai";
+import { Result } from "../../type/result";
+import {
+  contentToParts,
+  contentToText,
+  parseDataUrl,
+  parseToolArguments,
+  timeoutSignal,
+  upstreamError,
+} from "../../utils";
+import {
+  ProviderType,
+  type ModelsList,
+  type ProviderClient,
+  type TypedProviderConfig,
+} from "../types";
+
+type FinishReason = ChatCompletionsResponse["choices"][number]["finish_reason"];
+type ToolCall = NonNullable<ChatMessage["tool_calls"]>[number];
+
+/**
+ * Anthropic stop reasons mapped to OpenAI finish reasons
+ * Unlisted reasons fall back to "stop"
+ */
+const STOP_REASON_MAPPING: Record<string, FinishReason> = {
+  end_turn: "stop",
+  stop_sequence: "stop",
+  pause_turn: "stop",
+  max_tokens: "length",
+  tool_use: "tool_calls",
+  refusal: "content_filter",
+};
+
+/**
+ * Anthropic Messages API Provider Client implementation
+ *
+ * Translates OpenAI chat completion requests to `/messages` calls
+ * and maps Anthropic messages back to the OpenAI response shape.
+ */
+export class AnthropicProviderClient implements ProviderClient {
+  private name: string;
+  private config: TypedProviderConfig<ProviderType.Anthropic>;
+  private cachedModels: ModelsList | null = null;
+  private client: AxiosInstance;
+
+  constructor(
+    name: string,
+    config: TypedProviderConfig<ProviderType.Anthropic>
+  ) {
+    this.name = name;
+    this.config = config;
+
+    this.client = axios.create({
+      baseURL: config.endpoint,
+      headers: {
+        "x-api-key": config.api_key,
+        "anthropic-version": config.anthropic_version,
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  async create(): Promise<Result<void>> {
+    logger.debug("Creating Anthropic provider", {
+      name: this.name,
+      endpoint: this.config.endpoint,
+    });
+    try {
+      // Fetch models list to validate endpoint and API key
+      let models: ModelsList | null | undefined;
+      let err: Error | null = null;
+      ({ models, err } = await this.fetchModels());
+      if (err || !models) {
+        logger.error("Failed to validate Anthropic provider", {
+          name: this.name,
+          error: err?.message,
+        });
+        return Result<void>(err || new Error("Failed to fetch models"));
+      }
+
+      // Cache the models list
+      this.cachedModels = models;
+      logger.debug("Anthropic provider created successfully", {
+        name: this.name,
+        modelCount: this.cachedModels.length,
+      });
+      return Result<void>(undefined as void);
+    } catch (error) {
+      logger.error("Unexpected error creating Anthropic provider", {
+        name: this.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return Result<void>(
+        error instanceof Error
+          ? error
+          : new Error(`Failed to create Anthropic provider: ${String(error)}`)
+      );
+    }
+  }
+
+  async completion(
+    request: ChatCompletionsRequest,
+    signal?: AbortSignal
+  ): Promise<Result<ChatCompletionsResponse>> {
+    logger.debug("Sending completion request to Anthropic", {
+      name: this.name,
+      model: request.model,
+    });
+    try {
+      const response = await this.client.post<unknown>(
+        "/messages",
+        this.convertRequest(request),
+        {
+          signal: timeoutSignal(600000, signal),
+        }
+      );
+
+      let data: AnthropicMessagesResponse | null | undefined;
+      let err: Error | null = null;
+      ({ data, err } = this.validateResponse(
+        response,
+        AnthropicMessagesResponseSchema
+      ));
+      if (err || !data) {
+        return Result<ChatCompletionsResponse>(
+          new Error(`Failed to validate completion response: ${err?.message}`)
+        );
+      }
+
+      logger.debug("Anthropic completion request succeeded", {
+        name: this.name,
+        model: request.model,
+      });
+      return Result<ChatCompletionsResponse>(this.convertResponse(data));
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const errorMessage = error.response?.data
+          ? JSON.stringify(error.response.data)
+          : error.message;
+        logger.error("Anthropic API error", {
+          name: this.name,
+          model: request.model,
+          status: error.response?.status,
+          error: errorMessage,
+        });
+        return Result<ChatCompletionsResponse>(
+          upstreamError(
+            `Anthropic API error: ${
+              error.response?.status ?? "unknown"
+            } - ${errorMessage}`,
+            error
+          )
+        );
+      }
+      logger.error("Unexpected error in Anthropic completion", {
+        name: this.name,
+        model: request.model,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return Result<ChatCompletionsResponse>(
+        error instanceof Error
+          ? error
+          : new Error(`Failed to create completion: ${String(error)}`)
+      );
+    }
+  }
+
+  async models(): Promise<Result<ModelsList>> {
+    // Return cached models if available
+    if (this.cachedModels) {
+      return Result<ModelsList>(this.cachedModels);
+    }
+
+    // If no cache, try to fetch
+    return this.fetchModels();
+  }
+
+  async refreshModels(): Promise<Result<ModelsList>> {
+    logger.debug("Refreshing Anthropic models", { name: this.name });
+    let models: ModelsList | null | undefined;
+    let err: Error | null = null;
+    ({ models, err } = await this.fetchModels());
+    if (!err && models) {
+      this.cachedModels = models;
+      logger.debug("Anthropic models refreshed", {
+        name: this.name,
+        modelCount: this.cachedModels.length,
+      });
+    } else {
+      logger.error("Failed to refresh Anthropic models", {
+        name: this.name,
+        error: err?.message,
+      });
+    }
+    return err ? Result<ModelsList>(err) : Result<ModelsList>(models!);
+  }
+
+  /**
+   * Fetch models list from Anthropic API
+   * Follows pagination via after_id until has_more is false
+   * @private
+   */
+  private async fetchModels(): Promise<Result<ModelsList>> {
+    logger.debug("Fetching models from Anthropic", { name: this.name });
+    try {
+      const models: ModelsList = [];
+      let afterId: string | undefined;
+      while (true) {
+        const response = await this.client.get<unknown>("/models", {
+          params: { limit: 1000, after_id: afterId },
+        });
+
+        let page: AnthropicModelsListResponse | null | undefined;
+        let err: Error | null = null;
+        ({ page, err } = this.validateResponse(
+          response,
+          AnthropicModelsListResponseSchema
+        ));
+        if (err || !page) {
+          return Result<ModelsList>(
+            new Error(`Failed to validate models response: ${err?.message}`)
+          );
+        }
+
+        for (const model of page.data) {
+          models.push({
+            id: model.id,
+            created: model.created_at
+              ? Math.floor(Date.parse(model.created_at) / 1000)
+              : null,
+            owned_by: "anthropic",
+            display_name: model.display_name,
+          });
+        }
+
+        if (!page.has_more || !page.last_id) {
+          break;
+        }
+        afterId = page.last_id;
+      }
+
+      logger.debug("Successfully fetched models from Anthropic", {
+        name: this.name,
+        modelCount: models.length,
+      });
+      return Result<ModelsList>(models);
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const errorMessage = error.response?.data
+          ? JSON.stringify(error.response.data)
+          : error.message;
+        logger.error("Failed to fetch models from Anthropic", {
+          name: this.name,
+          status: error.response?.status,
+          error: errorMessage,
+        });
+        return Result<ModelsList>(
+          new Error(
+            `Anthropic API error: ${
+              error.response?.status ?? "unknown"
+            } - ${errorMessage}`
+          )
+        );
+      }
+      logger.error("Unexpected error fetching models from Anthropic", {
+        name: this.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return Result<ModelsList>(
+        error instanceof Error
+          ? error
+          : new Error(`Failed to fetch models: ${String(error)}`)
+      );
+    }
+  }
+
+  /**
+   * Convert an OpenAI chat completion request to an Anthropic messages request
+   * - system messages are hoisted into the top-level system prompt
+   * - image parts become image blocks, PDF files become document blocks
+   * - assistant tool calls become tool_use blocks
+   * - tool/function results become tool_result blocks in a user turn
+   * - consecutive turns of the same role are merged
+   * @private
+   */
+  private convertRequest(
+    request: ChatCompletionsRequest
+  ): AnthropicMessagesRequest {
+    const systemPrompts: string[] = [];
+    const messages: AnthropicMessage[] = [];
+    // Old-format function calls carry no id, pair them with results by name
+    const functionCallIds = new Map<string, string>();
+
+    const pushMessage = (
+      role: "user" | "assistant",
+      content: AnthropicContentBlock[]
+    ) => {
+      if (content.length === 0) {
+        return;
+      }
+      const last = messages[messages.length - 1];
+      if (last && last.role === role) {
+        last.content.push(...content);
+        return;
+      }
+      messages.push({ role, content });
+    };
+
+    for (const message of request.messages) {
+      switch (message.role) {
+        case "system": {
+          const text = contentToText(message.content);
+          if (text) {
+            systemPrompts.push(text);
+          }
+          break;
+        }
+        case "user":
+          pushMessage("user", convertContentBlocks(message.content));
+          break;
+        case "assistant": {
+          const content = convertContentBlocks(message.content);
+          for (const toolCall of message.tool_calls ?? []) {
+            content.push({
+              type: "tool_use",
+              id: toolCall.id,
+              name: toolCall.function.name,
+              input: parseToolArguments(toolCall.function.arguments),
+            });
+          }
+          if (message.function_call) {
+            const id = `toolu_${crypto.randomUUID().replace(/-/g, "")}`;
+            functionCallIds.set(message.function_call.name, id);
+            content.push({
+              type: "tool_use",
+              id,
+              name: message.function_call.name,
+              input: parseToolArguments(message.function_call.arguments),
+            });
+          }
+          pushMessage("assistant", content);
+          break;
+        }
+        case "tool":
+        case "function": {
+          const toolUseId =
+            message.tool_call_id ||
+            (message.name && functionCallIds.get(message.name)) ||
+            "unknown";
+          pushMessage("user", [
+            {
+              type: "tool_result",
+              tool_use_id: toolUseId,
+              content: contentToText(message.content),
+            },
+          ]);
+          break;
+        }
+      }
+    }
+
+    const anthropicRequest: AnthropicMessagesRequest = {
+      model: request.model,
+      messages,
+      max_tokens: request.max_tokens ?? this.config.max_tokens,
+      // Anthropic accepts temperature in [0, 1], OpenAI in [0, 2]
+      temperature:
+        request.temperature !== undefined
+          ? Math.min(request.temperature, 1)
+          : undefined,
+      top_p: request.top_p,
+      stop_sequences:
+        typeof request.stop === "string" ? [request.stop] : request.stop,
+    };
+    if (systemPrompts.length > 0) {
+      anthropicRequest.system = systemPrompts.join("\n\n");
+    }
+    if (request.user) {
+      anthropicRequest.metadata = { user_id: request.user };
+    }
+
+    // Tools (new format) and functions (old format)
+    const tools = [
+      ...(request.tools ?? []).map((tool) => tool.function),
+      ...(request.functions ?? []),
+    ].map((fn) => ({
+      name: fn.name,
+      description: fn.description,
+      input_schema: fn.parameters ?? { type: "object", properties: {} },
+    }));
+    if (tools.length > 0) {
+      anthropicRequest.tools = tools;
+    }
+
+    const toolChoice = request.tool_choice ?? request.function_call;
+    if (toolChoice === "none") {
+      anthropicRequest.tool_choice = { type: "none" };
+    } else if (toolChoice === "auto") {
+      anthropicRequest.tool_choice = { type: "auto" };
+    } else if (toolChoice === "required") {
+      anthropicRequest.tool_choice = { type: "any" };
+    } else if (toolChoice) {
+      anthropicRequest.tool_choice = {
+        type: "tool",
+        name:
+          "function" in toolChoice ? toolChoice.function.name : toolChoice.name,
+      };
+    }
+
+    return anthropicRequest;
+  }
+
+  /**
+   * Convert an Anthropic messages response to an OpenAI chat completion response
+   * @private
+   */
+  private convertResponse(
+    data: AnthropicMessagesResponse
+  ): ChatCompletionsResponse {
+    const text = data.content
+      .filter((block) => block.type === "text")
+      .map((block) => block.text ?? "")
+      .join("");
+    const reasoning = data.content
+      .filter((block) => block.type === "thinking")
+      .map((block) => block.thinking ?? "")
+      .join("");
+    const toolCalls: ToolCall[] = data.content
+      .filter((block) => block.type === "tool_use")
+      .map((block) => ({
+        id: block.id ?? `toolu_${crypto.randomUUID().replace(/-/g, "")}`,
+        type: "function" as const,
+        function: {
+          name: block.name ?? "",
+          arguments: JSON.stringify(block.input ?? {}),
+        },
+      }));
+
+    const message: ChatMessage = {
+      role: "assistant",
+      content: text.length > 0 ? text : null,
+    };
+    if (reasoning.length > 0) {
+      message.reasoning_content = reasoning;
+    }
+    if (toolCalls.length > 0) {
+      message.tool_calls = toolCalls;
+    }
+
+    const promptTokens =
+      data.usage.input_tokens +
+      (data.usage.cache_creation_input_tokens ?? 0) +
+      (data.usage.cache_read_input_tokens ?? 0);
+
+    return {
+      id: data.id,
+      object: "chat.completion",
+      created: Math.floor(Date.now() / 1000),
+      model: data.model,
+      choices: [
+        {
+          index: 0,
+          message,
+          finish_reason: data.stop_reason
+            ? (STOP_REASON_MAPPING[data.stop_reason] ?? "stop")
+            : null,
+        },
+      ],
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: data.usage.output_tokens,
+        total_tokens: promptTokens + data.usage.output_tokens,
+      },
+    };
+  }
+
+  /**
+   * Validate an Anthropic API response
+   * Checks in order: error response body -> non-2xx status -> Zod validation
+   * @private
+   */
+  private validateResponse<T extends z.ZodType>(
+    response: { status: number; data: unknown },
+    schema: T
+  ): Result<z.infer<T>> {
+    const errorCheck = AnthropicErrorSchema.safeParse(response.data);
+    if (errorCheck.success) {
+      const errorData = errorCheck.data.error;
+      logger.error("Anthropic API returned error response", {
+        name: this.name,
+        status: response.status,
+        errorMessage: errorData.message,
+        errorType: errorData.type,
+      });
+      return Result<z.infer<T>>(
+        new Error(
+          `Anthropic API error (${response.status}): ${errorData.type} - ${errorData.message}`
+        )
+      );
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      const errorMessage =
+        typeof response.data === "object" && response.data !== null
+          ? JSON.stringify(response.data)
+          : String(response.data);
+      logger.error("Anthropic API returned non-2xx status code", {
+        name: this.name,
+        status: response.status,
+        error: errorMessage,
+      });
+      return Result<z.infer<T>>(
+        new Error(
+          `Anthropic API returned status ${response.status}: ${errorMessage}`
+        )
+      );
+    }
+
+    const respCheck = schema.safeParse(response.data);
+    if (!respCheck.success) {
+      logger.error("Invalid Anthropic response format", {
+        name: this.name,
+        errors: respCheck.error.issues,
+        responseData: JSON.stringify(response.data),
+      });
+      return Result<z.infer<T>>(
+        new Error(
+          `Invalid response format from Anthropic API: ${respCheck.error.message}`
+        )
+      );
+    }
+
+    return Result<z.infer<T>>(respCheck.data);
+  }
+}
+
+/**
+ * Convert OpenAI message content into Anthropic content blocks
+ * - empty text is skipped, Anthropic rejects empty text blocks
+ * - images become image blocks (base64 for data URLs, url otherwise)
+ * - PDF files become document blocks
+ * - audio and other files are not supported and are dropped
+ */
+function convertContentBlocks(
+  content: ChatMessage["content"]
+): AnthropicContentBlock[] {
+  const blocks: AnthropicContentBlock[] = [];
+  for (const part of contentToParts(content)) {
+    switch (part.type) {
+      case "text":
+        if (part.text) {
+          blocks.push({ type: "text", text: part.text });
+        }
+        break;
+      case "refusal":
+        if (part.refusal) {
+          blocks.push({ type: "text", text: part.refusal });
+        }
+        break;
+      case "image_url": {
+        const inline = parseDataUrl(part.image_url.url);
+        blocks.push({
+          type: "image",
+          source: inline
+            ? { type: "base64", media_type: inline.mimeType, data: inline.data }
+            : { type: "url", url: part.image_url.url },
+        });
+        break;
+      }
+      case "file": {
+        const inline = part.file.file_data
+          ? parseDataUrl(part.file.file_data)
+          : null;
+        if (inline?.mimeType === "application/pdf") {
+          blocks.push({
+            type: "document",
+            source: {
+              type: "base64",
+              media_type: inline.mimeType,
+              data: inline.data,
+            },
+            title: part.file.filename,
+          });
+        } else {
+          logger.warn("Dropping file content part unsupported by Anthropic", {
+            filename: part.file.filename,
+          });
+        }
+        break;
+      }
+      case "input_audio":
+        logger.warn("Dropping audio content part unsupported by Anthropic");
+        break;
+    }
+  }
+  return blocks;
+}
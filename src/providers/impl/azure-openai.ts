@@ -0,0 +1,436 @@
+import axios, { type AxiosInstance } from "axios";
+import type { z } from "zod";
+import { logger } from "../../logger";
+import {
+  AzureOpenAIErrorSchema,
+  AzureOpenAIModelsListResponseSchema,
+} from "../../schemas/azure-openai";
+import {
+  ChatCompletionsResponseSchema,
+  type ChatCompletionChunk,
+  type ChatCompletionsRequest,
+  type ChatCompletionsResponse,
+} from "../../schemas/openai";
+import { Result } from "../../type/result";
+import {
+  aggregateChatCompletionStream,
+  isAsyncIterable,
+  readChatCompletionChunks,
+  readStreamText,
+  timeoutSignal,
+  upstreamError,
+} from "../../utils";
+import {
+  ProviderType,
+  type ModelsList,
+  type ProviderClient,
+  type TypedProviderConfig,
+} from "../types";
+
+/**
+ * Azure OpenAI Provider Client implementation
+ *
+ * Requests are routed to `/openai/deployments/{deployment}/chat/completions`.
+ * The model list is built from the configured deployment map, because
+ * Azure's `/models` endpoint does not reflect deployments.
+ */
+export class AzureOpenAIProviderClient implements ProviderClient {
+  private name: string;
+  private config: TypedProviderConfig<ProviderType.AzureOpenAI>;
+  private cachedModels: ModelsList | null = null;
+  private client: AxiosInstance;
+  // Mapping: model name -> deployment name
+  private deploymentsMapping = new Map<string, string>();
+
+  constructor(
+    name: string,
+    config: TypedProviderConfig<ProviderType.AzureOpenAI>
+  ) {
+    this.name = name;
+    this.config = config;
+
+    for (const [deployment, model] of Object.entries(config.deployments)) {
+      this.deploymentsMapping.set(model, deployment);
+    }
+
+    this.client = axios.create({
+      baseURL: `${config.endpoint.replace(/\/+$/, "")}/openai`,
+      params: { "api-version": config.api_version },
+      headers: {
+        "api-key": config.api_key,
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  async create(): Promise<Result<void>> {
+    logger.debug("Creating Azure OpenAI provider", {
+      name: this.name,
+      endpoint: this.config.endpoint,
+      apiVersion: this.config.api_version,
+    });
+    try {
+      // Fetch models list to validate endpoint, API key and API version
+      let err: Error | null = null;
+      ({ err } = await this.validateEndpoint());
+      if (err) {
+        logger.error("Failed to validate Azure OpenAI provider", {
+          name: this.name,
+          error: err.message,
+        });
+        return Result<void>(err);
+      }
+
+      // Cache the models list
+      this.cachedModels = this.deploymentModels();
+      logger.debug("Azure OpenAI provider created successfully", {
+        name: this.name,
+        modelCount: this.cachedModels.length,
+      });
+      return Result<void>(undefined as void);
+    } catch (error) {
+      logger.error("Unexpected error creating Azure OpenAI provider", {
+        name: this.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return Result<void>(
+        error instanceof Error
+          ? error
+          : new Error(
+              `Failed to create Azure OpenAI provider: ${String(error)}`
+            )
+      );
+    }
+  }
+
+  async completion(
+    request: ChatCompletionsRequest,
+    signal?: AbortSignal
+  ): Promise<Result<ChatCompletionsResponse>> {
+    const deployment = this.deploymentsMapping.get(request.model);
+    if (!deployment) {
+      logger.warn("No Azure OpenAI deployment for model", {
+        name: this.name,
+        model: request.model,
+      });
+      return Result<ChatCompletionsResponse>(
+        new Error(`No deployment configured for model "${request.model}"`)
+      );
+    }
+
+    logger.debug("Sending completion request to Azure OpenAI", {
+      name: this.name,
+      model: request.model,
+      deployment,
+    });
+    try {
+      const response = await this.postCompletion(deployment, request, signal);
+
+      let data: ChatCompletionsResponse | null | undefined;
+      let err: Error | null = null;
+      ({ data, err } = this.validateResponse(
+        response,
+        ChatCompletionsResponseSchema
+      ));
+      if (err || !data) {
+        return Result<ChatCompletionsResponse>(
+          new Error(`Failed to validate completion response: ${err?.message}`)
+        );
+      }
+
+      logger.debug("Azure OpenAI completion request succeeded", {
+        name: this.name,
+        model: request.model,
+        deployment,
+      });
+      return Result<ChatCompletionsResponse>(data);
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const errorMessage = error.response?.data
+          ? JSON.stringify(error.response.data)
+          : error.message;
+        logger.error("Azure OpenAI API error", {
+          name: this.name,
+          model: request.model,
+          deployment,
+          status: error.response?.status,
+          error: errorMessage,
+        });
+        return Result<ChatCompletionsResponse>(
+          upstreamError(
+            `Azure OpenAI API error: ${
+              error.response?.status ?? "unknown"
+            } - ${errorMessage}`,
+            error
+          )
+        );
+      }
+      logger.error("Unexpected error in Azure OpenAI completion", {
+        name: this.name,
+        model: request.model,
+        deployment,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return Result<ChatCompletionsResponse>(
+        error instanceof Error
+          ? error
+          : new Error(`Failed to create completion: ${String(error)}`)
+      );
+    }
+  }
+
+  async stream(
+    request: ChatCompletionsRequest,
+    signal?: AbortSignal
+  ): Promise<Result<AsyncIterable<ChatCompletionChunk>>> {
+    const deployment = this.deploymentsMapping.get(request.model);
+    if (!deployment) {
+      logger.warn("No Azure OpenAI deployment for model", {
+        name: this.name,
+        model: request.model,
+      });
+      return Result<AsyncIterable<ChatCompletionChunk>>(
+        new Error(`No deployment configured for model "${request.model}"`)
+      );
+    }
+
+    logger.debug("Sending streaming completion request to Azure OpenAI", {
+      name: this.name,
+      model: request.model,
+      deployment,
+    });
+    try {
+      // The deployment determines the model, so the model field is dropped
+      const { model, ...body } = request;
+      const response = await this.client.post<AsyncIterable<Uint8Array>>(
+        `/deployments/${encodeURIComponent(deployment)}/chat/completions`,
+        { ...body, stream: true },
+        {
+          responseType: "stream",
+          signal: timeoutSignal(600000, signal),
+        }
+      );
+      return Result<AsyncIterable<ChatCompletionChunk>>(
+        readChatCompletionChunks(response.data)
+      );
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const body: unknown = error.response?.data;
+        const errorMessage = isAsyncIterable(body)
+          ? await readStreamText(body)
+          : body
+            ? JSON.stringify(body)
+            : error.message;
+        logger.error("Azure OpenAI API error", {
+          name: this.name,
+          model: request.model,
+          deployment,
+          status: error.response?.status,
+          error: errorMessage,
+        });
+        return Result<AsyncIterable<ChatCompletionChunk>>(
+          upstreamError(
+            `Azure OpenAI API error: ${
+              error.response?.status ?? "unknown"
+            } - ${errorMessage}`,
+            error,
+            errorMessage
+          )
+        );
+      }
+      logger.error("Unexpected error in Azure OpenAI streaming completion", {
+        name: this.name,
+        model: request.model,
+        deployment,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return Result<AsyncIterable<ChatCompletionChunk>>(
+        error instanceof Error
+          ? error
+          : new Error(`Failed to create completion: ${String(error)}`)
+      );
+    }
+  }
+
+  async models(): Promise<Result<ModelsList>> {
+    // Return cached models if available
+    if (this.cachedModels) {
+      return Result<ModelsList>(this.cachedModels);
+    }
+
+    return Result<ModelsList>(this.deploymentModels());
+  }
+
+  async refreshModels(): Promise<Result<ModelsList>> {
+    // Deployments come from configuration, nothing to fetch from upstream
+    this.cachedModels = this.deploymentModels();
+    logger.debug("Azure OpenAI models refreshed", {
+      name: this.name,
+      modelCount: this.cachedModels.length,
+    });
+    return Result<ModelsList>(this.cachedModels);
+  }
+
+  /**
+   * Send a completion request to a deployment
+   * In aggregate mode the request is streamed and the SSE chunks are
+   * reassembled into a non-stream response body
+   * @private
+   */
+  private async postCompletion(
+    deployment: string,
+    request: ChatCompletionsRequest,
+    signal?: AbortSignal
+  ): Promise<{ status: number; data: unknown }> {
+    const url = `/deployments/${encodeURIComponent(deployment)}/chat/completions`;
+    // The deployment determines the model, so the model field is dropped
+    const { model, ...body } = request;
+    if (this.config.upstream_mode !== "aggregate") {
+      return this.client.post<unknown>(url, body, {
+        signal: timeoutSignal(600000, signal),
+      });
+    }
+
+    const response = await this.client.post<string>(
+      url,
+      { ...body, stream: true, stream_options: { include_usage: true } },
+      {
+        responseType: "text",
+        signal: timeoutSignal(600000, signal),
+      }
+    );
+    return {
+      status: response.status,
+      data: aggregateChatCompletionStream(response.data),
+    };
+  }
+
+  /**
+   * Build the models list from the configured deployments
+   * @private
+   */
+  private deploymentModels(): ModelsList {
+    return Array.from(this.deploymentsMapping.entries()).map(
+      ([model, deployment]) => ({
+        id: model,
+        owned_by: "azure-openai",
+        deployment,
+      })
+    );
+  }
+
+  /**
+   * Validate endpoint, API key and API version by fetching the models list
+   * @private
+   */
+  private async validateEndpoint(): Promise<Result<void>> {
+    logger.debug("Validating Azure OpenAI endpoint", { name: this.name });
+    try {
+      const response = await this.client.get<unknown>("/models");
+
+      let err: Error | null = null;
+      ({ err } = this.validateResponse(
+        response,
+        AzureOpenAIModelsListResponseSchema
+      ));
+      if (err) {
+        return Result<void>(
+          new Error(`Failed to validate models response: ${err.message}`)
+        );
+      }
+      return Result<void>(undefined as void);
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const errorMessage = error.response?.data
+          ? JSON.stringify(error.response.data)
+          : error.message;
+        logger.error("Failed to fetch models from Azure OpenAI", {
+          name: this.name,
+          status: error.response?.status,
+          error: errorMessage,
+        });
+        return Result<void>(
+          new Error(
+            `Azure OpenAI API error: ${
+              error.response?.status ?? "unknown"
+            } - ${errorMessage}`
+          )
+        );
+      }
+      logger.error("Unexpected error fetching models from Azure OpenAI", {
+        name: this.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return Result<void>(
+        error instanceof Error
+          ? error
+          : new Error(`Failed to fetch models: ${String(error)}`)
+      );
+    }
+  }
+
+  /**
+   * Validate an Azure OpenAI API response
+   * Checks in order: error response body -> non-2xx status -> Zod validation
+   * @private
+   */
+  private validateResponse<T extends z.ZodType>(
+    response: { status: number; data: unknown },
+    schema: T
+  ): Result<z.infer<T>> {
+    const errorCheck = AzureOpenAIErrorSchema.safeParse(response.data);
+    if (errorCheck.success) {
+      const errorData = errorCheck.data.error;
+      logger.error("Azure OpenAI API returned error response", {
+        name: this.name,
+        status: response.status,
+        errorMessage: errorData.message,
+        errorCode: errorData.code,
+      });
+      return Result<z.infer<T>>(
+        new Error(
+          `Azure OpenAI API error (${response.status}): ${
+            errorData.message
+          }${errorData.code ? ` (code: ${errorData.code})` : ""}`
+        )
+      );
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      const errorMessage =
+        typeof response.data === "object" && response.data !== null
+          ? JSON.stringify(response.data)
+          : String(response.data);
+      logger.error("Azure OpenAI API returned non-2xx status code", {
+        name: this.name,
+        status: response.status,
+        error: errorMessage,
+      });
+      return Result<z.infer<T>>(
+        new Error(
+          `Azure OpenAI API returned status ${response.status}: ${errorMessage}`
+        )
+      );
+    }
+
+    const respCheck = schema.safeParse(response.data);
+    if (!respCheck.success) {
+      logger.error("Invalid Azure OpenAI response format", {
+        name: this.name,
+        errors: respCheck.error.issues,
+        responseData: JSON.stringify(response.data),
+      });
+      return Result<z.infer<T>>(
+        new Error(
+          `Invalid response format from Azure OpenAI API: ${respCheck.error.message}`
+        )
+      );
+    }
+
+    return Result<z.infer<T>>(respCheck.data);
+  }
+}
@@ -0,0 +1,90 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import type { GeminiGenerateContentRequest } from "../../schemas/google-ai";
+import { chatRequest, configure } from "../../test/setup";
+import { ProviderRouter } from "../router";
+
+// Gemini API capturing the generateContent requests
+const requests: GeminiGenerateContentRequest[] = [];
+const gemini = Bun.serve({
+  port: 0,
+  async fetch(request) {
+    if (new URL(request.url).pathname.endsWith("/models")) {
+      return Response.json({ models: [{ name: "models/gemini" }] });
+    }
+    requests.push((await request.json()) as GeminiGenerateContentRequest);
+    return Response.json({
+      candidates: [
+        {
+          content: { role: "model", parts: [{ text: "Done" }] },
+          finishReason: "STOP",
+        },
+      ],
+    });
+  },
+});
+
+afterAll(() => gemini.stop(true));
+
+describe("GoogleAIProviderClient", () => {
+  test("inlines $ref targets of tool schemas and drops their definitions", async () => {
+    await configure({
+      providers: {
+        gemini: {
+          type: "google-ai",
+          endpoint: gemini.url.origin,
+          api_key: "test",
+        },
+      },
+    });
+    const parameters = {
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      type: "object",
+      properties: {
+        item: { $ref: "#/$defs/Item", description: "The item" },
+        tree: { $ref: "#/definitions/Node" },
+        additionalProperties: { type: "boolean" },
+      },
+      additionalProperties: false,
+      $defs: {
+        Item: {
+          type: "object",
+          properties: { name: { type: "string", enum: ["$ref"] } },
+          additionalProperties: false,
+        },
+      },
+      definitions: {
+        Node: {
+          type: "object",
+          properties: {
+            children: { type: "array", items: { $ref: "#/definitions/Node" } },
+          },
+        },
+      },
+    };
+    const { err } = await ProviderRouter.completion(
+      chatRequest("gemini/gemini", "Hello", {
+        tools: [{ type: "function", function: { name: "save", parameters } }],
+      })
+    );
+    expect(err).toBeNull();
+    expect(
+      requests[0]?.tools?.[0]?.functionDeclarations?.[0]?.parameters
+    ).toEqual({
+      type: "object",
+      properties: {
+        item: {
+          type: "object",
+          properties: { name: { type: "string", enum: ["$ref"] } },
+          description: "The item",
+        },
+        tree: {
+          type: "object",
+          properties: {
+            children: { type: "array", items: {} },
+          },
+        },
+        additionalProperties: { type: "boolean" },
+      },
+    });
+  });
+});
@@ -0,0 +1,836 @@
+import axios, { type AxiosInstance } from "axios";
+import type { z } from "zod";
+import { logger } from "../../logger";
+import {
+  GeminiGenerateContentResponseSchema,
+  GeminiModelsListResponseSchema,
+  GoogleAIErrorSchema,
+  type GeminiContent,
+  type GeminiFunctionDeclaration,
+  type GeminiGenerateContentRequest,
+  type GeminiGenerateContentResponse,
+  type GeminiModelsListResponse,
+  type GeminiPart,
+} from "../../schemas/google-ai";
+import type {
+  ChatCompletionsRequest,
+  ChatCompletionsResponse,
+  ChatMessage,
+} from "../../schemas/openai";
+import { UpstreamError } from "../../type/error";
+import { Result } from "../../type/result";
+import {
+  contentToParts,
+  contentToText,
+  parseDataUrl,
+  parseToolArguments,
+  timeoutSignal,
+  upstreamError,
+} from "../../utils";
+import { createKeyPool, type KeyPool } from "../keys";
+import {
+  ProviderType,
+  type ModelsList,
+  type ProviderClient,
+  type TypedProviderConfig,
+} from "../types";
+
+type FinishReason = ChatCompletionsResponse["choices"][number]["finish_reason"];
+type ToolCall = NonNullable<ChatMessage["tool_calls"]>[number];
+
+/**
+ * Gemini finish reasons mapped to OpenAI finish reasons
+ * Unlisted reasons fall back to "stop"
+ */
+const FINISH_REASON_MAPPING: Record<string, FinishReason> = {
+  STOP: "stop",
+  MAX_TOKENS: "length",
+  SAFETY: "content_filter",
+  RECITATION: "content_filter",
+  BLOCKLIST: "content_filter",
+  PROHIBITED_CONTENT: "content_filter",
+  SPII: "content_filter",
+  IMAGE_SAFETY: "content_filter",
+};
+
+/**
+ * JSON schema keywords rejected by Gemini function declarations
+ * (references are inlined, so their definitions are dropped)
+ */
+const UNSUPPORTED_SCHEMA_KEYS = new Set([
+  "$schema",
+  "additionalProperties",
+  "$defs",
+  "definitions",
+]);
+
+/**
+ * JSON schema keywords mapping names to schemas (the names are not keywords)
+ */
+const SCHEMA_MAP_KEYS = new Set(["properties", "patternProperties"]);
+
+/**
+ * JSON schema keywords holding data instead of schemas
+ */
+const SCHEMA_VALUE_KEYS = new Set(["enum", "const", "default", "examples"]);
+
+/**
+ * Google AI (Gemini native API) Provider Client implementation
+ *
+ * Translates OpenAI chat completion requests to `generateContent` calls
+ * and maps Gemini candidates back to the OpenAI response shape.
+ * Every request picks an API key from the provider's key pool.
+ */
+export class GoogleAIProviderClient implements ProviderClient {
+  private name: string;
+  private config: TypedProviderConfig<ProviderType.GoogleAI>;
+  private cachedModels: ModelsList | null = null;
+  private client: AxiosInstance;
+  private keys: KeyPool;
+
+  constructor(
+    name: string,
+    config: TypedProviderConfig<ProviderType.GoogleAI>
+  ) {
+    this.name = name;
+    this.config = config;
+    this.keys = createKeyPool(name, config);
+
+    this.client = axios.create({
+      baseURL: config.endpoint,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  async create(): Promise<Result<void>> {
+    logger.debug("Creating Google AI provider", {
+      name: this.name,
+      endpoint: this.config.endpoint,
+    });
+    try {
+      let models: ModelsList | null | undefined;
+      let err: Error | null = null;
+      if (this.config.api_keys_file) {
+        ({ err } = this.keys.loadFile(this.config.api_keys_file));
+        if (err) {
+          return Result<void>(err);
+        }
+      }
+
+      // Fetch models list to validate endpoint and API key
+      ({ models, err } = await this.fetchModels());
+      if (err || !models) {
+        logger.error("Failed to validate Google AI provider", {
+          name: this.name,
+          error: err?.message,
+        });
+        return Result<void>(err || new Error("Failed to fetch models"));
+      }
+
+      // Cache the models list
+      this.cachedModels = models;
+      logger.debug("Google AI provider created successfully", {
+        name: this.name,
+        modelCount: this.cachedModels.length,
+      });
+      return Result<void>(undefined as void);
+    } catch (error) {
+      logger.error("Unexpected error creating Google AI provider", {
+        name: this.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return Result<void>(
+        error instanceof Error
+          ? error
+          : new Error(`Failed to create Google AI provider: ${String(error)}`)
+      );
+    }
+  }
+
+  async completion(
+    request: ChatCompletionsRequest,
+    signal?: AbortSignal
+  ): Promise<Result<ChatCompletionsResponse>> {
+    logger.debug("Sending completion request to Google AI", {
+      name: this.name,
+      model: request.model,
+    });
+    let key: string | null | undefined;
+    let keyErr: Error | null = null;
+    ({ key, err: keyErr } = this.keys.next());
+    if (keyErr || !key) {
+      return Result<ChatCompletionsResponse>(
+        keyErr || new Error("No API key available")
+      );
+    }
+    try {
+      const response = await this.client.post<unknown>(
+        `/models/${request.model}:generateContent`,
+        this.convertRequest(request),
+        {
+          headers: { "x-goog-api-key": key },
+          signal: timeoutSignal(600000, signal),
+        }
+      );
+
+      let data: GeminiGenerateContentResponse | null | undefined;
+      let err: Error | null = null;
+      ({ data, err } = this.validateResponse(
+        response,
+        GeminiGenerateContentResponseSchema
+      ));
+      if (err || !data) {
+        return Result<ChatCompletionsResponse>(
+          new Error(`Failed to validate completion response: ${err?.message}`)
+        );
+      }
+
+      // The whole prompt was blocked, there is nothing to convert
+      if (!data.candidates?.length && data.promptFeedback?.blockReason) {
+        logger.warn("Google AI blocked the prompt", {
+          name: this.name,
+          model: request.model,
+          blockReason: data.promptFeedback.blockReason,
+        });
+        return Result<ChatCompletionsResponse>(
+          new Error(
+            `Google AI blocked the prompt: ${data.promptFeedback.blockReason}`
+          )
+        );
+      }
+
+      logger.debug("Google AI completion request succeeded", {
+        name: this.name,
+        model: request.model,
+      });
+      return Result<ChatCompletionsResponse>(
+        this.convertResponse(data, request.model)
+      );
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const errorMessage = error.response?.data
+          ? JSON.stringify(error.response.data)
+          : error.message;
+        logger.error("Google AI API error", {
+          name: this.name,
+          model: request.model,
+          status: error.response?.status,
+          error: errorMessage,
+        });
+        return Result<ChatCompletionsResponse>(
+          this.keys.reportFailure(
+            key,
+            upstreamError(
+              `Google AI API error: ${
+                error.response?.status ?? "unknown"
+              } - ${errorMessage}`,
+              error
+            )
+          )
+        );
+      }
+      logger.error("Unexpected error in Google AI completion", {
+        name: this.name,
+        model: request.model,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return Result<ChatCompletionsResponse>(
+        error instanceof Error
+          ? error
+          : new Error(`Failed to create completion: ${String(error)}`)
+      );
+    }
+  }
+
+  async models(): Promise<Result<ModelsList>> {
+    // Return cached models if available
+    if (this.cachedModels) {
+      return Result<ModelsList>(this.cachedModels);
+    }
+
+    // If no cache, try to fetch
+    return this.fetchModels();
+  }
+
+  async refreshModels(): Promise<Result<ModelsList>> {
+    logger.debug("Refreshing Google AI models", { name: this.name });
+    let models: ModelsList | null | undefined;
+    let err: Error | null = null;
+    ({ models, err } = await this.fetchModels());
+    if (!err && models) {
+      this.cachedModels = models;
+      logger.debug("Google AI models refreshed", {
+        name: this.name,
+        modelCount: this.cachedModels.length,
+      });
+    } else {
+      logger.error("Failed to refresh Google AI models", {
+        name: this.name,
+        error: err?.message,
+      });
+    }
+    return err ? Result<ModelsList>(err) : Result<ModelsList>(models!);
+  }
+
+  /**
+   * Fetch models list from Google AI API
+   * Follows pagination and keeps only models supporting generateContent.
+   * Tried again with the next key if the key was rejected or rate limited
+   * @private
+   */
+  private async fetchModels(): Promise<Result<ModelsList>> {
+    logger.debug("Fetching models from Google AI", { name: this.name });
+    let key: string | null | undefined;
+    let keyErr: Error | null = null;
+    ({ key, err: keyErr } = this.keys.next());
+    if (keyErr || !key) {
+      return Result<ModelsList>(keyErr || new Error("No API key available"));
+    }
+    try {
+      const models: ModelsList = [];
+      let pageToken: string | undefined;
+      do {
+        const response = await this.client.get<unknown>("/models", {
+          headers: { "x-goog-api-key": key },
+          params: { pageSize: 1000, pageToken },
+        });
+
+        let page: GeminiModelsListResponse | null | undefined;
+        let err: Error | null = null;
+        ({ page, err } = this.validateResponse(
+          response,
+          GeminiModelsListResponseSchema
+        ));
+        if (err || !page) {
+          return Result<ModelsList>(
+            new Error(`Failed to validate models response: ${err?.message}`)
+          );
+        }
+
+        for (const model of page.models) {
+          if (
+            model.supportedGenerationMethods &&
+            !model.supportedGenerationMethods.includes("generateContent")
+          ) {
+            continue;
+          }
+          models.push({
+            id: model.name.replace(/^models\//, ""),
+            owned_by: "google",
+            display_name: model.displayName,
+          });
+        }
+        pageToken = page.nextPageToken;
+      } while (pageToken);
+
+      logger.debug("Successfully fetched models from Google AI", {
+        name: this.name,
+        modelCount: models.length,
+      });
+      return Result<ModelsList>(models);
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const errorMessage = error.response?.data
+          ? JSON.stringify(error.response.data)
+          : error.message;
+        logger.error("Failed to fetch models from Google AI", {
+          name: this.name,
+          status: error.response?.status,
+          error: errorMessage,
+        });
+        const err = this.keys.reportFailure(
+          key,
+          upstreamError(
+            `Google AI API error: ${
+              error.response?.status ?? "unknown"
+            } - ${errorMessage}`,
+            error
+          )
+        );
+        if (err instanceof UpstreamError && err.code === "api_key_rotated") {
+          return this.fetchModels();
+        }
+        return Result<ModelsList>(err);
+      }
+      logger.error("Unexpected error fetching models from Google AI", {
+        name: this.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return Result<ModelsList>(
+        error instanceof Error
+          ? error
+          : new Error(`Failed to fetch models: ${String(error)}`)
+      );
+    }
+  }
+
+  /**
+   * Convert an OpenAI chat completion request to a Gemini generateContent request
+   * - system messages are hoisted into systemInstruction
+   * - content parts become text, inlineData (data URLs) or fileData (remote URLs)
+   * - assistant tool calls become functionCall parts
+   * - tool/function results become functionResponse parts
+   * - consecutive turns of the same role are merged
+   * @private
+   */
+  private convertRequest(
+    request: ChatCompletionsRequest
+  ): GeminiGenerateContentRequest {
+    const systemParts: GeminiPart[] = [];
+    const contents: GeminiContent[] = [];
+    // Gemini identifies function responses by name, OpenAI by tool_call_id
+    const toolCallNames = new Map<string, string>();
+
+    const pushContent = (role: "user" | "model", parts: GeminiPart[]) => {
+      if (parts.length === 0) {
+        return;
+      }
+      const last = contents[contents.length - 1];
+      if (last && last.role === role) {
+        last.parts.push(...parts);
+        return;
+      }
+      contents.push({ role, parts });
+    };
+
+    for (const message of request.messages) {
+      switch (message.role) {
+        case "system":
+          systemParts.push(...convertContentParts(message.content));
+          break;
+        case "user": {
+          const parts = convertContentParts(message.content);
+          pushContent("user", parts.length > 0 ? parts : [{ text: "" }]);
+          break;
+        }
+        case "assistant": {
+          const parts = convertContentParts(message.content);
+          for (const toolCall of message.tool_calls ?? []) {
+            toolCallNames.set(toolCall.id, toolCall.function.name);
+            parts.push({
+              functionCall: {
+                name: toolCall.function.name,
+                args: parseToolArguments(toolCall.function.arguments),
+              },
+            });
+          }
+          if (message.function_call) {
+            parts.push({
+              functionCall: {
+                name: message.function_call.name,
+                args: parseToolArguments(message.function_call.arguments),
+              },
+            });
+          }
+          pushContent("model", parts);
+          break;
+        }
+        case "tool":
+        case "function": {
+          const name =
+            (message.tool_call_id && toolCallNames.get(message.tool_call_id)) ||
+            message.name ||
+            "unknown";
+          pushContent("user", [
+            {
+              functionResponse: {
+                name,
+                response: parseFunctionResponse(contentToText(message.content)),
+              },
+            },
+          ]);
+          break;
+        }
+      }
+    }
+
+    const geminiRequest: GeminiGenerateContentRequest = { contents };
+    if (systemParts.length > 0) {
+      geminiRequest.systemInstruction = { parts: systemParts };
+    }
+
+    // Tools (new format) and functions (old format)
+    const declarations: GeminiFunctionDeclaration[] = [
+      ...(request.tools ?? []).map((tool) => tool.function),
+      ...(request.functions ?? []),
+    ].map((fn) => ({
+      name: fn.name,
+      description: fn.description,
+      parameters: fn.parameters ? sanitizeSchema(fn.parameters) : undefined,
+    }));
+    if (declarations.length > 0) {
+      geminiRequest.tools = [{ functionDeclarations: declarations }];
+    }
+
+    const toolChoice = request.tool_choice ?? request.function_call;
+    if (toolChoice === "none") {
+      geminiRequest.toolConfig = { functionCallingConfig: { mode: "NONE" } };
+    } else if (toolChoice === "auto") {
+      geminiRequest.toolConfig = { functionCallingConfig: { mode: "AUTO" } };
+    } else if (toolChoice === "required") {
+      geminiRequest.toolConfig = { functionCallingConfig: { mode: "ANY" } };
+    } else if (toolChoice) {
+      geminiRequest.toolConfig = {
+        functionCallingConfig: {
+          mode: "ANY",
+          allowedFunctionNames: [
+            "function" in toolChoice
+              ? toolChoice.function.name
+              : toolChoice.name,
+          ],
+        },
+      };
+    }
+
+    geminiRequest.generationConfig = {
+      temperature: request.temperature,
+      topP: request.top_p,
+      candidateCount: request.n,
+      maxOutputTokens: request.max_tokens,
+      stopSequences:
+        typeof request.stop === "string" ? [request.stop] : request.stop,
+      presencePenalty: request.presence_penalty,
+      frequencyPenalty: request.frequency_penalty,
+    };
+
+    return geminiRequest;
+  }
+
+  /**
+   * Convert a Gemini generateContent response to an OpenAI chat completion response
+   * @private
+   */
+  private convertResponse(
+    data: GeminiGenerateContentResponse,
+    model: string
+  ): ChatCompletionsResponse {
+    const choices = (data.candidates ?? []).map((candidate, i) => {
+      const parts = candidate.content?.parts ?? [];
+      const text = parts
+        .filter((part) => part.text !== undefined && !part.thought)
+        .map((part) => part.text)
+        .join("");
+      // Thought summaries are only returned with thinkingConfig.includeThoughts
+      const reasoning = parts
+        .filter((part) => part.text !== undefined && part.thought)
+        .map((part) => part.text)
+        .join("");
+      const toolCalls: ToolCall[] = parts
+        .filter((part) => part.functionCall)
+        .map((part) => ({
+          id: `call_${crypto.randomUUID().replace(/-/g, "").slice(0, 24)}`,
+          type: "function" as const,
+          function: {
+            name: part.functionCall!.name,
+            arguments: JSON.stringify(part.functionCall!.args ?? {}),
+          },
+        }));
+
+      // Gemini reports STOP for function calls as well
+      let finishReason: FinishReason = candidate.finishReason
+        ? (FINISH_REASON_MAPPING[candidate.finishReason] ?? "stop")
+        : null;
+      if (toolCalls.length > 0 && finishReason === "stop") {
+        finishReason = "tool_calls";
+      }
+
+      const message: ChatMessage = {
+        role: "assistant",
+        content: text.length > 0 ? text : null,
+      };
+      if (reasoning.length > 0) {
+        message.reasoning_content = reasoning;
+      }
+      if (toolCalls.length > 0) {
+        message.tool_calls = toolCalls;
+      }
+
+      return {
+        index: candidate.index ?? i,
+        message,
+        finish_reason: finishReason,
+      };
+    });
+
+    const usage = data.usageMetadata;
+    const promptTokens = usage?.promptTokenCount ?? 0;
+    const completionTokens =
+      (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0);
+
+    return {
+      id: data.responseId
+        ? `chatcmpl-${data.responseId}`
+        : `chatcmpl-${Date.now()}`,
+      object: "chat.completion",
+      created: Math.floor(Date.now() / 1000),
+      model: data.modelVersion ?? model,
+      choices,
+      usage: usage
+        ? {
+            prompt_tokens: promptTokens,
+            completion_tokens: completionTokens,
+            total_tokens:
+              usage.totalTokenCount ?? promptTokens + completionTokens,
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * Validate a Google AI API response
+   * Checks in order: error response body -> non-2xx status -> Zod validation
+   * @private
+   */
+  private validateResponse<T extends z.ZodType>(
+    response: { status: number; data: unknown },
+    schema: T
+  ): Result<z.infer<T>> {
+    const errorCheck = GoogleAIErrorSchema.safeParse(response.data);
+    if (errorCheck.success) {
+      const errorData = errorCheck.data.error;
+      logger.error("Google AI API returned error response", {
+        name: this.name,
+        status: response.status,
+        errorMessage: errorData.message,
+        errorStatus: errorData.status,
+        errorCode: errorData.code,
+      });
+      return Result<z.infer<T>>(
+        new Error(
+          `Google AI API error (${errorData.code}): ${
+            errorData.status ?? "UNKNOWN"
+          } - ${errorData.message}`
+        )
+      );
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      const errorMessage =
+        typeof response.data === "object" && response.data !== null
+          ? JSON.stringify(response.data)
+          : String(response.data);
+      logger.error("Google AI API returned non-2xx status code", {
+        name: this.name,
+        status: response.status,
+        error: errorMessage,
+      });
+      return Result<z.infer<T>>(
+        new Error(
+          `Google AI API returned status ${response.status}: ${errorMessage}`
+        )
+      );
+    }
+
+    const respCheck = schema.safeParse(response.data);
+    if (!respCheck.success) {
+      logger.error("Invalid Google AI response format", {
+        name: this.name,
+        errors: respCheck.error.issues,
+        responseData: JSON.stringify(response.data),
+      });
+      return Result<z.infer<T>>(
+        new Error(
+          `Invalid response format from Google AI API: ${respCheck.error.message}`
+        )
+      );
+    }
+
+    return Result<z.infer<T>>(respCheck.data);
+  }
+}
+
+/**
+ * Gemini requires function responses to be a JSON object.
+ * Object results are passed as-is, anything else is wrapped in { content }.
+ */
+function parseFunctionResponse(
+  content: string | null
+): Record<string, unknown> {
+  if (content) {
+    try {
+      const parsed = JSON.parse(content);
+      if (
+        typeof parsed === "object" &&
+        parsed !== null &&
+        !Array.isArray(parsed)
+      ) {
+        return parsed;
+      }
+    } catch {
+      // Not JSON, wrap as plain text below
+    }
+  }
+  return { content: content ?? "" };
+}
+
+/**
+ * Convert OpenAI message content into Gemini parts
+ * - data URLs (images, audio, files) become inlineData
+ * - remote image URLs become fileData, the MIME type is guessed from the extension
+ * - parts Gemini cannot take (e.g. file_id references) are dropped
+ */
+function convertContentParts(content: ChatMessage["content"]): GeminiPart[] {
+  const parts: GeminiPart[] = [];
+  for (const part of contentToParts(content)) {
+    switch (part.type) {
+      case "text":
+        parts.push({ text: part.text });
+        break;
+      case "refusal":
+        parts.push({ text: part.refusal });
+        break;
+      case "image_url": {
+        const inline = parseDataUrl(part.image_url.url);
+        if (inline) {
+          parts.push({ inlineData: inline });
+        } else {
+          parts.push({
+            fileData: {
+              mimeType: guessImageMimeType(part.image_url.url),
+              fileUri: part.image_url.url,
+            },
+          });
+        }
+        break;
+      }
+      case "input_audio":
+        parts.push({
+          inlineData: {
+            mimeType: `audio/${part.input_audio.format}`,
+            data: part.input_audio.data,
+          },
+        });
+        break;
+      case "file": {
+        const inline = part.file.file_data
+          ? parseDataUrl(part.file.file_data)
+          : null;
+        if (inline) {
+          parts.push({ inlineData: inline });
+        } else {
+          logger.warn("Dropping file content part unsupported by Gemini", {
+            filename: part.file.filename,
+          });
+        }
+        break;
+      }
+    }
+  }
+  return parts;
+}
+
+/**
+ * Guess an image MIME type from the URL's file extension
+ */
+function guessImageMimeType(url: string): string {
+  const extension = /\.([a-z0-9]+)(?:[?#]|$)/i.exec(url)?.[1]?.toLowerCase();
+  switch (extension) {
+    case "png":
+      return "image/png";
+    case "webp":
+      return "image/webp";
+    case "gif":
+      return "image/gif";
+    case "heic":
+      return "image/heic";
+    case "heif":
+      return "image/heif";
+    default:
+      return "image/jpeg";
+  }
+}
+
+/**
+ * Recursively remove JSON schema keywords that Gemini does not accept
+ * Only keywords are removed: property names and data values (enum, default,
+ * ...) are kept as they are. Local references ($ref to "#/...", e.g. into
+ * $defs) are replaced by their target, Gemini does not resolve them.
+ * Recursive references are cut off with an empty schema.
+ * @param schema Schema to sanitize
+ * @param root Document the references point into
+ * @param refs References being inlined around the schema (cycle guard)
+ */
+function sanitizeSchema(
+  schema: Record<string, unknown>,
+  root: Record<string, unknown> = schema,
+  refs: string[] = []
+): Record<string, unknown> {
+  const { $ref: ref, ...rest } = schema;
+  if (typeof ref === "string") {
+    const target = refs.includes(ref) ? undefined : resolveSchemaRef(root, ref);
+    // Keywords next to $ref (e.g. description) take precedence
+    return sanitizeSchema(target ? { ...target, ...rest } : rest, root, [
+      ...refs,
+      ref,
+    ]);
+  }
+
+  const sanitized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (UNSUPPORTED_SCHEMA_KEYS.has(key)) {
+      continue;
+    }
+    if (SCHEMA_VALUE_KEYS.has(key)) {
+      sanitized[key] = value;
+    } else if (SCHEMA_MAP_KEYS.has(key) && isRecord(value)) {
+      sanitized[key] = Object.fromEntries(
+        Object.entries(value).map(([name, subschema]) => [
+          name,
+          sanitizeSubschema(subschema, root, refs),
+        ])
+      );
+    } else {
+      sanitized[key] = sanitizeSubschema(value, root, refs);
+    }
+  }
+  return sanitized;
+}
+
+/**
+ * Sanitize the value of a keyword holding schemas (items, anyOf, not, ...)
+ */
+function sanitizeSubschema(
+  value: unknown,
+  root: Record<string, unknown>,
+  refs: string[]
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitizeSubschema(item, root, refs));
+  }
+  return isRecord(value) ? sanitizeSchema(value, root, refs) : value;
+}
+
+/**
+ * Resolve a local JSON schema reference (JSON pointer, e.g. "#/$defs/Item")
+ * @returns Referenced schema, or undefined for remote or dangling references
+ */
+function resolveSchemaRef(
+  root: Record<string, unknown>,
+  ref: string
+): Record<string, unknown> | undefined {
+  if (!ref.startsWith("#")) {
+    return undefined;
+  }
+  let target: unknown = root;
+  for (const token of ref.slice(1).split("/").slice(1)) {
+    let name = token;
+    try {
+      name = decodeURIComponent(token);
+    } catch {
+      // Not percent-encoded
+    }
+    name = name.replace(/~1/g, "/").replace(/~0/g, "~");
+    target = isRecord(target) ? target[name] : undefined;
+  }
+  return isRecord(target) ? target : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -1,9 +1,39 @@
+export * from "./anthropic";
+export * from "./azure-openai";
+export * from "./google-ai";
+export * from "./mock";
+export * from "./ollama";
 export * from "./openai";
 
 import { ProviderRegistry } from "../registry";
 import { ProviderType } from "../types";
+import { AnthropicProviderClient } from "./anthropic";
+import { AzureOpenAIProviderClient } from "./azure-openai";
+import { GoogleAIProviderClient } from "./google-ai";
+import { MockProviderClient } from "./mock";
+import { OllamaProviderClient } from "./ollama";
 import { OpenAIProviderClient } from "./openai";
 
 ProviderRegistry.register(ProviderType.OpenAI, (name, config) => {
   return new OpenAIProviderClient(name, config);
 });
+
+ProviderRegistry.register(ProviderType.GoogleAI, (name, config) => {
+  return new GoogleAIProviderClient(name, config);
+});
+
+ProviderRegistry.register(ProviderType.Anthropic, (name, config) => {
+  return new AnthropicProviderClient(name, config);
+});
+
+ProviderRegistry.register(ProviderType.Ollama, (name, config) => {
+  return new OllamaProviderClient(name, config);
+});
+
+ProviderRegistry.register(ProviderType.AzureOpenAI, (name, config) => {
+  return new AzureOpenAIProviderClient(name, config);
+});
+
+ProviderRegistry.register(ProviderType.Mock, (name, config) => {
+  return new MockProviderClient(name, config);
+});
@@ -0,0 +1,171 @@
+import type { MockResponse } from "../../config/schema";
+import { logger } from "../../logger";
+import type {
+  ChatCompletionsRequest,
+  ChatCompletionsResponse,
+  ChatMessage,
+} from "../../schemas/openai";
+import { UpstreamError } from "../../type/error";
+import { Result } from "../../type/result";
+import { contentToText, sleep } from "../../utils";
+import {
+  ProviderType,
+  type ModelsList,
+  type ProviderClient,
+  type TypedProviderConfig,
+} from "../types";
+
+/**
+ * Mock Provider Client implementation
+ *
+ * Serves completions entirely in-process, without any upstream.
+ * Responses come from the scripted steps (in order) and then from the
+ * default response, which makes retry and fake-stream paths reproducible.
+ */
+export class MockProviderClient implements ProviderClient {
+  private name: string;
+  private config: TypedProviderConfig<ProviderType.Mock>;
+  // Script steps expanded by their repeat count
+  private script: MockResponse[];
+  private scriptPosition = 0;
+
+  constructor(name: string, config: TypedProviderConfig<ProviderType.Mock>) {
+    this.name = name;
+    this.config = config;
+    this.script = config.script.flatMap((step) =>
+      Array.from({ length: step.repeat }, () => step)
+    );
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  async create(): Promise<Result<void>> {
+    logger.debug("Mock provider created successfully", {
+      name: this.name,
+      modelCount: this.config.models.length,
+      scriptLength: this.script.length,
+    });
+    return Result<void>(undefined as void);
+  }
+
+  async completion(
+    request: ChatCompletionsRequest,
+    signal?: AbortSignal
+  ): Promise<Result<ChatCompletionsResponse>> {
+    const step = this.nextStep();
+    logger.debug("Serving mock completion", {
+      name: this.name,
+      model: request.model,
+      mode: step.mode,
+    });
+
+    const latency = step.latency ?? this.config.latency;
+    if (latency > 0) {
+      await sleep(latency, signal);
+    }
+    // Behave like an aborted upstream request
+    if (signal?.aborted) {
+      return Result<ChatCompletionsResponse>(
+        new UpstreamError("Mock API error: request aborted", {
+          code: "ERR_CANCELED",
+        })
+      );
+    }
+
+    if (step.mode === "error") {
+      return Result<ChatCompletionsResponse>(
+        new UpstreamError(`Mock API error: ${step.status} - ${step.message}`, {
+          status: step.status,
+        })
+      );
+    }
+
+    const message: ChatMessage = { role: "assistant", content: null };
+    let finishReason: MockResponse["finish_reason"] | "tool_calls" =
+      step.finish_reason;
+    switch (step.mode) {
+      case "echo": {
+        const lastUserMessage = request.messages.findLast(
+          (message) => message.role === "user"
+        );
+        message.content = contentToText(lastUserMessage?.content ?? null);
+        break;
+      }
+      case "text":
+        message.content = step.text;
+        break;
+      case "tool_call":
+        message.tool_calls = [
+          {
+            id: `call_${crypto.randomUUID().replace(/-/g, "").slice(0, 24)}`,
+            type: "function",
+            function: step.tool_call,
+          },
+        ];
+        finishReason = "tool_calls";
+        break;
+      case "empty":
+        message.content = "";
+        break;
+    }
+
+    const promptTokens = estimateTokens(
+      request.messages.map((message) => contentToText(message.content)).join("")
+    );
+    const completionTokens =
+      step.mode === "tool_call"
+        ? estimateTokens(step.tool_call.arguments)
+        : estimateTokens(contentToText(message.content));
+
+    return Result<ChatCompletionsResponse>({
+      id: `chatcmpl-mock-${Date.now()}`,
+      object: "chat.completion",
+      created: Math.floor(Date.now() / 1000),
+      model: request.model,
+      choices: [{ index: 0, message, finish_reason: finishReason }],
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    });
+  }
+
+  async models(): Promise<Result<ModelsList>> {
+    return Result<ModelsList>(
+      this.config.models.map((id) => ({ id, owned_by: "mock" }))
+    );
+  }
+
+  async refreshModels(): Promise<Result<ModelsList>> {
+    return this.models();
+  }
+
+  /**
+   * Get the response for the next request
+   * Script steps are consumed in order, then the default response applies
+   * (or the script restarts when loop is enabled)
+   * @private
+   */
+  private nextStep(): MockResponse {
+    if (this.scriptPosition >= this.script.length && this.config.loop) {
+      this.scriptPosition = 0;
+    }
+    const step = this.script[this.scriptPosition];
+    if (!step) {
+      return this.config.response;
+    }
+    this.scriptPosition++;
+    return step;
+  }
+}
+
+/**
+ * Rough token estimate (about 4 characters per token)
+ * An empty string is 0 tokens, so "empty" responses trigger the retry check
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,41 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { autoRetryCompletion } from "../../handlers/completion";
+import { chatRequest, configure } from "../../test/setup";
+
+// Ollama server answering without token counts, like cached responses
+let chatRequests = 0;
+const ollama = Bun.serve({
+  port: 0,
+  fetch(request) {
+    if (new URL(request.url).pathname === "/api/tags") {
+      return Response.json({ models: [{ name: "llama3" }] });
+    }
+    chatRequests++;
+    return Response.json({
+      model: "llama3",
+      created_at: new Date().toISOString(),
+      message: { role: "assistant", content: "Hi there" },
+      done: true,
+      done_reason: "stop",
+    });
+  },
+});
+
+afterAll(() => ollama.stop(true));
+
+describe("OllamaProviderClient", () => {
+  test("responses without token counts have no usage and are not retried", async () => {
+    await configure({
+      providers: {
+        local: { type: "ollama", endpoint: ollama.url.origin },
+      },
+    });
+    const { response, err } = await autoRetryCompletion(
+      chatRequest("local/llama3")
+    );
+    expect(err).toBeNull();
+    expect(response?.choices[0]?.message.content).toBe("Hi there");
+    expect(response?.usage).toBeUndefined();
+    expect(chatRequests).toBe(1);
+  });
+});
@@ -0,0 +1,488 @@
+import axios, { type AxiosInstance } from "axios";
+import type { z } from "zod";
+import { logger } from "../../logger";
+import {
+  OllamaChatResponseSchema,
+  OllamaErrorSchema,
+  OllamaTagsResponseSchema,
+  type OllamaChatRequest,
+  type OllamaChatResponse,
+  type OllamaMessage,
+  type OllamaTagsResponse,
+} from "../../schemas/ollama";
+import type {
+  ChatCompletionsRequest,
+  ChatCompletionsResponse,
+  ChatMessage,
+} from "../../schemas/openai";
+import { Result } from "../../type/result";
+import {
+  contentToParts,
+  contentToText,
+  parseDataUrl,
+  parseToolArguments,
+  timeoutSignal,
+  upstreamError,
+} from "../../utils";
+import {
+  ProviderType,
+  type ModelsList,
+  type ProviderClient,
+  type TypedProviderConfig,
+} from "../types";
+
+type ToolCall = NonNullable<ChatMessage["tool_calls"]>[number];
+
+/**
+ * Ollama Provider Client implementation
+ *
+ * Lists local models from `/api/tags` and serves completions
+ * through non-streaming `/api/chat` calls.
+ */
+export class OllamaProviderClient implements ProviderClient {
+  private name: string;
+  private config: TypedProviderConfig<ProviderType.Ollama>;
+  private cachedModels: ModelsList | null = null;
+  private client: AxiosInstance;
+
+  constructor(name: string, config: TypedProviderConfig<ProviderType.Ollama>) {
+    this.name = name;
+    this.config = config;
+
+    this.client = axios.create({
+      baseURL: config.endpoint,
+      headers: {
+        ...(config.api_key
+          ? { Authorization: `Bearer ${config.api_key}` }
+          : {}),
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  async create(): Promise<Result<void>> {
+    logger.debug("Creating Ollama provider", {
+      name: this.name,
+      endpoint: this.config.endpoint,
+    });
+    try {
+      // Fetch models list to validate endpoint
+      let models: ModelsList | null | undefined;
+      let err: Error | null = null;
+      ({ models, err } = await this.fetchModels());
+      if (err || !models) {
+        logger.error("Failed to validate Ollama provider", {
+          name: this.name,
+          error: err?.message,
+        });
+        return Result<void>(err || new Error("Failed to fetch models"));
+      }
+
+      // Cache the models list
+      this.cachedModels = models;
+      logger.debug("Ollama provider created successfully", {
+        name: this.name,
+        modelCount: this.cachedModels.length,
+      });
+      return Result<void>(undefined as void);
+    } catch (error) {
+      logger.error("Unexpected error creating Ollama provider", {
+        name: this.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return Result<void>(
+        error instanceof Error
+          ? error
+          : new Error(`Failed to create Ollama provider: ${String(error)}`)
+      );
+    }
+  }
+
+  async completion(
+    request: ChatCompletionsRequest,
+    signal?: AbortSignal
+  ): Promise<Result<ChatCompletionsResponse>> {
+    logger.debug("Sending completion request to Ollama", {
+      name: this.name,
+      model: request.model,
+    });
+    try {
+      const response = await this.client.post<unknown>(
+        "/api/chat",
+        this.convertRequest(request),
+        {
+          signal: timeoutSignal(600000, signal),
+        }
+      );
+
+      let data: OllamaChatResponse | null | undefined;
+      let err: Error | null = null;
+      ({ data, err } = this.validateResponse(
+        response,
+        OllamaChatResponseSchema
+      ));
+      if (err || !data) {
+        return Result<ChatCompletionsResponse>(
+          new Error(`Failed to validate completion response: ${err?.message}`)
+        );
+      }
+
+      logger.debug("Ollama completion request succeeded", {
+        name: this.name,
+        model: request.model,
+      });
+      return Result<ChatCompletionsResponse>(this.convertResponse(data));
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const errorMessage = error.response?.data
+          ? JSON.stringify(error.response.data)
+          : error.message;
+        logger.error("Ollama API error", {
+          name: this.name,
+          model: request.model,
+          status: error.response?.status,
+          error: errorMessage,
+        });
+        return Result<ChatCompletionsResponse>(
+          upstreamError(
+            `Ollama API error: ${
+              error.response?.status ?? "unknown"
+            } - ${errorMessage}`,
+            error
+          )
+        );
+      }
+      logger.error("Unexpected error in Ollama completion", {
+        name: this.name,
+        model: request.model,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return Result<ChatCompletionsResponse>(
+        error instanceof Error
+          ? error
+          : new Error(`Failed to create completion: ${String(error)}`)
+      );
+    }
+  }
+
+  async models(): Promise<Result<ModelsList>> {
+    // Return cached models if available
+    if (this.cachedModels) {
+      return Result<ModelsList>(this.cachedModels);
+    }
+
+    // If no cache, try to fetch
+    return this.fetchModels();
+  }
+
+  async refreshModels(): Promise<Result<ModelsList>> {
+    logger.debug("Refreshing Ollama models", { name: this.name });
+    let models: ModelsList | null | undefined;
+    let err: Error | null = null;
+    ({ models, err } = await this.fetchModels());
+    if (!err && models) {
+      this.cachedModels = models;
+      logger.debug("Ollama models refreshed", {
+        name: this.name,
+        modelCount: this.cachedModels.length,
+      });
+    } else {
+      logger.error("Failed to refresh Ollama models", {
+        name: this.name,
+        error: err?.message,
+      });
+    }
+    return err ? Result<ModelsList>(err) : Result<ModelsList>(models!);
+  }
+
+  /**
+   * Fetch local models list from Ollama API
+   * @private
+   */
+  private async fetchModels(): Promise<Result<ModelsList>> {
+    logger.debug("Fetching models from Ollama", { name: this.name });
+    try {
+      const response = await this.client.get<unknown>("/api/tags");
+
+      let tags: OllamaTagsResponse | null | undefined;
+      let err: Error | null = null;
+      ({ tags, err } = this.validateResponse(
+        response,
+        OllamaTagsResponseSchema
+      ));
+      if (err || !tags) {
+        return Result<ModelsList>(
+          new Error(`Failed to validate models response: ${err?.message}`)
+        );
+      }
+
+      const models: ModelsList = tags.models.map((model) => ({
+        id: model.name,
+        created: model.modified_at
+          ? Math.floor(Date.parse(model.modified_at) / 1000)
+          : null,
+        owned_by: "ollama",
+      }));
+
+      logger.debug("Successfully fetched models from Ollama", {
+        name: this.name,
+        modelCount: models.length,
+      });
+      return Result<ModelsList>(models);
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const errorMessage = error.response?.data
+          ? JSON.stringify(error.response.data)
+          : error.message;
+        logger.error("Failed to fetch models from Ollama", {
+          name: this.name,
+          status: error.response?.status,
+          error: errorMessage,
+        });
+        return Result<ModelsList>(
+          new Error(
+            `Ollama API error: ${
+              error.response?.status ?? "unknown"
+            } - ${errorMessage}`
+          )
+        );
+      }
+      logger.error("Unexpected error fetching models from Ollama", {
+        name: this.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return Result<ModelsList>(
+        error instanceof Error
+          ? error
+          : new Error(`Failed to fetch models: ${String(error)}`)
+      );
+    }
+  }
+
+  /**
+   * Convert an OpenAI chat completion request to an Ollama chat request
+   * Image parts are sent as base64 `images`, remote URLs must be inlined first
+   * Sampling parameters are mapped into `options`, max_tokens becomes num_predict
+   * @private
+   */
+  private convertRequest(request: ChatCompletionsRequest): OllamaChatRequest {
+    // Ollama identifies tool results by tool name, OpenAI by tool_call_id
+    const toolCallNames = new Map<string, string>();
+
+    const messages: OllamaMessage[] = request.messages.map((message) => {
+      switch (message.role) {
+        case "assistant": {
+          const toolCalls = (message.tool_calls ?? []).map((toolCall) => {
+            toolCallNames.set(toolCall.id, toolCall.function.name);
+            return {
+              function: {
+                name: toolCall.function.name,
+                arguments: parseToolArguments(toolCall.function.arguments),
+              },
+            };
+          });
+          if (message.function_call) {
+            toolCalls.push({
+              function: {
+                name: message.function_call.name,
+                arguments: parseToolArguments(message.function_call.arguments),
+              },
+            });
+          }
+          return {
+            role: "assistant",
+            content: contentToText(message.content),
+            tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+          };
+        }
+        case "tool":
+        case "function":
+          return {
+            role: "tool",
+            content: contentToText(message.content),
+            tool_name:
+              (message.tool_call_id &&
+                toolCallNames.get(message.tool_call_id)) ||
+              message.name,
+          };
+        default: {
+          const images = extractImages(message.content);
+          return {
+            role: message.role,
+            content: contentToText(message.content),
+            images: images.length > 0 ? images : undefined,
+          };
+        }
+      }
+    });
+
+    const tools = [
+      ...(request.tools ?? []).map((tool) => tool.function),
+      ...(request.functions ?? []),
+    ].map((fn) => ({ type: "function" as const, function: fn }));
+
+    return {
+      model: request.model,
+      messages,
+      stream: false,
+      tools: tools.length > 0 ? tools : undefined,
+      options: {
+        temperature: request.temperature,
+        top_p: request.top_p,
+        num_predict: request.max_tokens,
+        stop: typeof request.stop === "string" ? [request.stop] : request.stop,
+        presence_penalty: request.presence_penalty,
+        frequency_penalty: request.frequency_penalty,
+      },
+    };
+  }
+
+  /**
+   * Convert an Ollama chat response to an OpenAI chat completion response
+   * prompt_eval_count/eval_count are mapped to usage. Ollama leaves out
+   * eval_count for some (e.g. cached) responses, usage is then left out
+   * rather than reporting 0 completion tokens, which reads as an empty
+   * response. A missing prompt_eval_count (cached prompt) becomes 0.
+   * @private
+   */
+  private convertResponse(data: OllamaChatResponse): ChatCompletionsResponse {
+    const toolCalls: ToolCall[] = (data.message.tool_calls ?? []).map(
+      (toolCall) => ({
+        id: `call_${crypto.randomUUID().replace(/-/g, "").slice(0, 24)}`,
+        type: "function" as const,
+        function: {
+          name: toolCall.function.name,
+          arguments: JSON.stringify(toolCall.function.arguments),
+        },
+      })
+    );
+
+    const message: ChatMessage = {
+      role: "assistant",
+      content: data.message.content.length > 0 ? data.message.content : null,
+    };
+    if (data.message.thinking) {
+      message.reasoning_content = data.message.thinking;
+    }
+    if (toolCalls.length > 0) {
+      message.tool_calls = toolCalls;
+    }
+
+    const promptTokens = data.prompt_eval_count ?? 0;
+    const completionTokens = data.eval_count;
+    const createdAt = Date.parse(data.created_at);
+
+    return {
+      id: `chatcmpl-${Date.now()}`,
+      object: "chat.completion",
+      created: Math.floor(
+        (Number.isNaN(createdAt) ? Date.now() : createdAt) / 1000
+      ),
+      model: data.model,
+      choices: [
+        {
+          index: 0,
+          message,
+          finish_reason:
+            toolCalls.length > 0
+              ? "tool_calls"
+              : data.done_reason === "length"
+                ? "length"
+                : "stop",
+        },
+      ],
+      usage:
+        completionTokens !== undefined
+          ? {
+              prompt_tokens: promptTokens,
+              completion_tokens: completionTokens,
+              total_tokens: promptTokens + completionTokens,
+            }
+          : undefined,
+    };
+  }
+
+  /**
+   * Validate an Ollama API response
+   * Checks in order: error response body -> non-2xx status -> Zod validation
+   * @private
+   */
+  private validateResponse<T extends z.ZodType>(
+    response: { status: number; data: unknown },
+    schema: T
+  ): Result<z.infer<T>> {
+    const errorCheck = OllamaErrorSchema.safeParse(response.data);
+    if (errorCheck.success) {
+      logger.error("Ollama API returned error response", {
+        name: this.name,
+        status: response.status,
+        errorMessage: errorCheck.data.error,
+      });
+      return Result<z.infer<T>>(
+        new Error(
+          `Ollama API error (${response.status}): ${errorCheck.data.error}`
+        )
+      );
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      const errorMessage =
+        typeof response.data === "object" && response.data !== null
+          ? JSON.stringify(response.data)
+          : String(response.data);
+      logger.error("Ollama API returned non-2xx status code", {
+        name: this.name,
+        status: response.status,
+        error: errorMessage,
+      });
+      return Result<z.infer<T>>(
+        new Error(
+          `Ollama API returned status ${response.status}: ${errorMessage}`
+        )
+      );
+    }
+
+    const respCheck = schema.safeParse(response.data);
+    if (!respCheck.success) {
+      logger.error("Invalid Ollama response format", {
+        name: this.name,
+        errors: respCheck.error.issues,
+        responseData: JSON.stringify(response.data),
+      });
+      return Result<z.infer<T>>(
+        new Error(
+          `Invalid response format from Ollama API: ${respCheck.error.message}`
+        )
+      );
+    }
+
+    return Result<z.infer<T>>(respCheck.data);
+  }
+}
+
+/**
+ * Collect base64 image data from image_url parts
+ * Ollama only accepts raw base64, so remote URLs are dropped
+ * (enable inline_images to download them beforehand)
+ */
+function extractImages(content: ChatMessage["content"]): string[] {
+  const images: string[] = [];
+  for (const part of contentToParts(content)) {
+    if (part.type !== "image_url") {
+      continue;
+    }
+    const inline = parseDataUrl(part.image_url.url);
+    if (inline) {
+      images.push(inline.data);
+    } else {
+      logger.warn("Dropping remote image unsupported by Ollama", {
+        url: part.image_url.url,
+      });
+    }
+  }
+  return images;
+}
@@ -4,12 +4,24 @@ import {
   ChatCompletionsResponseSchema,
   ModelsListResponseSchema,
   OpenAIErrorSchema,
+  type ChatCompletionChunk,
   type ChatCompletionsRequest,
   type ChatCompletionsResponse,
   type ModelsListResponse,
 } from "../../schemas/openai";
+import { UpstreamError } from "../../type/error";
 import { Result } from "../../type/result";
 import {
+  aggregateChatCompletionStream,
+  isAsyncIterable,
+  readChatCompletionChunks,
+  readStreamText,
+  timeoutSignal,
+  upstreamError,
+} from "../../utils";
+import { createKeyPool, type KeyPool } from "../keys";
+import {
+  ProviderType,
   type ModelsList,
   type ProviderClient,
   type TypedProviderConfig,
@@ -17,21 +29,23 @@ import {
 
 /**
  * OpenAI Provider Client implementation
+ * Every request picks an API key from the provider's key pool.
  */
 export class OpenAIProviderClient implements ProviderClient {
   private name: string;
-  private config: TypedProviderConfig;
+  private config: TypedProviderConfig<ProviderType.OpenAI>;
   private cachedModels: ModelsList | null = null;
   private client: AxiosInstance;
+  private keys: KeyPool;
 
-  constructor(name: string, config: TypedProviderConfig) {
+  constructor(name: string, config: TypedProviderConfig<ProviderType.OpenAI>) {
     this.name = name;
     this.config = config;
+    this.keys = createKeyPool(name, config);
 
     this.client = axios.create({
       baseURL: config.endpoint,
       headers: {
-        Authorization: `Bearer ${config.api_key}`,
         "Content-Type": "application/json",
       },
     });
@@ -47,9 +61,16 @@ export class OpenAIProviderClient implements ProviderClient {
       endpoint: this.config.endpoint,
     });
     try {
-      // Fetch models list to validate endpoint and API key
       let models: ModelsList | null | undefined;
       let err: Error | null = null;
+      if (this.config.api_keys_file) {
+        ({ err } = this.keys.loadFile(this.config.api_keys_file));
+        if (err) {
+          return Result<void>(err);
+        }
+      }
+
+      // Fetch models list to validate endpoint and API key
       ({ models, err } = await this.fetchModels());
       if (err || !models) {
         logger.error("Failed to validate OpenAI provider", {
@@ -80,20 +101,23 @@ export class OpenAIProviderClient implements ProviderClient {
   }
 
   async completion(
-    request: ChatCompletionsRequest
+    request: ChatCompletionsRequest,
+    signal?: AbortSignal
   ): Promise<Result<ChatCompletionsResponse>> {
     logger.debug("Sending completion request to OpenAI", {
       name: this.name,
       model: request.model,
     });
-    try {
-      const response = await this.client.post<unknown>(
-        "/chat/completions",
-        request,
-        {
-          signal: AbortSignal.timeout(600000),
-        }
+    let key: string | null | undefined;
+    let keyErr: Error | null = null;
+    ({ key, err: keyErr } = this.keys.next());
+    if (keyErr || !key) {
+      return Result<ChatCompletionsResponse>(
+        keyErr || new Error("No API key available")
       );
+    }
+    try {
+      const response = await this.postCompletion(request, key, signal);
 
       const { err, data } = this.validateCompletion(response, request.model);
       if (err || !data) {
@@ -119,10 +143,14 @@ export class OpenAIProviderClient implements ProviderClient {
           error: errorMessage,
         });
         return Result<ChatCompletionsResponse>(
-          new Error(
-            `OpenAI API error: ${
-              error.response?.status ?? "unknown"
-            } - ${errorMessage}`
+          this.keys.reportFailure(
+            key,
+            upstreamError(
+              `OpenAI API error: ${
+                error.response?.status ?? "unknown"
+              } - ${errorMessage}`,
+              error
+            )
           )
         );
       }
@@ -139,6 +167,75 @@ export class OpenAIProviderClient implements ProviderClient {
     }
   }
 
+  async stream(
+    request: ChatCompletionsRequest,
+    signal?: AbortSignal
+  ): Promise<Result<AsyncIterable<ChatCompletionChunk>>> {
+    logger.debug("Sending streaming completion request to OpenAI", {
+      name: this.name,
+      model: request.model,
+    });
+    let key: string | null | undefined;
+    let keyErr: Error | null = null;
+    ({ key, err: keyErr } = this.keys.next());
+    if (keyErr || !key) {
+      return Result<AsyncIterable<ChatCompletionChunk>>(
+        keyErr || new Error("No API key available")
+      );
+    }
+    try {
+      const response = await this.client.post<AsyncIterable<Uint8Array>>(
+        "/chat/completions",
+        { ...request, stream: true },
+        {
+          headers: this.authHeaders(key),
+          responseType: "stream",
+          signal: timeoutSignal(600000, signal),
+        }
+      );
+      return Result<AsyncIterable<ChatCompletionChunk>>(
+        readChatCompletionChunks(response.data)
+      );
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const body: unknown = error.response?.data;
+        const errorMessage = isAsyncIterable(body)
+          ? await readStreamText(body)
+          : body
+            ? JSON.stringify(body)
+            : error.message;
+        logger.error("OpenAI API error", {
+          name: this.name,
+          model: request.model,
+          status: error.response?.status,
+          error: errorMessage,
+        });
+        return Result<AsyncIterable<ChatCompletionChunk>>(
+          this.keys.reportFailure(
+            key,
+            upstreamError(
+              `OpenAI API error: ${
+                error.response?.status ?? "unknown"
+              } - ${errorMessage}`,
+              error,
+              errorMessage
+            )
+          )
+        );
+      }
+      logger.error("Unexpected error in OpenAI streaming completion", {
+        name: this.name,
+        model: request.model,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return Result<AsyncIterable<ChatCompletionChunk>>(
+        error instanceof Error
+          ? error
+          : new Error(`Failed to create completion: ${String(error)}`)
+      );
+    }
+  }
+
   async models(): Promise<Result<ModelsList>> {
     // Return cached models if available
     if (this.cachedModels) {
@@ -171,12 +268,21 @@ export class OpenAIProviderClient implements ProviderClient {
 
   /**
    * Fetch models list from OpenAI API
+   * Tried again with the next key if the key was rejected or rate limited
    * @private
    */
   private async fetchModels(): Promise<Result<ModelsList>> {
     logger.debug("Fetching models from OpenAI", { name: this.name });
+    let key: string | null | undefined;
+    let keyErr: Error | null = null;
+    ({ key, err: keyErr } = this.keys.next());
+    if (keyErr || !key) {
+      return Result<ModelsList>(keyErr || new Error("No API key available"));
+    }
     try {
-      const response = await this.client.get<unknown>("/models");
+      const response = await this.client.get<unknown>("/models", {
+        headers: this.authHeaders(key),
+      });
 
       const { err, models } = this.validateModels(response);
       if (err || !models || !models.data) {
@@ -200,13 +306,19 @@ export class OpenAIProviderClient implements ProviderClient {
           status: error.response?.status,
           error: errorMessage,
         });
-        return Result<ModelsList>(
-          new Error(
+        const err = this.keys.reportFailure(
+          key,
+          upstreamError(
             `OpenAI API error: ${
               error.response?.status ?? "unknown"
-            } - ${errorMessage}`
+            } - ${errorMessage}`,
+            error
           )
         );
+        if (err instanceof UpstreamError && err.code === "api_key_rotated") {
+          return this.fetchModels();
+        }
+        return Result<ModelsList>(err);
       }
       logger.error("Unexpected error fetching models from OpenAI", {
         name: this.name,
@@ -220,6 +332,47 @@ export class OpenAIProviderClient implements ProviderClient {
     }
   }
 
+  /**
+   * Send a completion request upstream
+   * In aggregate mode the request is streamed and the SSE chunks are
+   * reassembled into a non-stream response body
+   * @private
+   */
+  private async postCompletion(
+    request: ChatCompletionsRequest,
+    key: string,
+    signal?: AbortSignal
+  ): Promise<{ status: number; data: unknown }> {
+    if (this.config.upstream_mode !== "aggregate") {
+      return this.client.post<unknown>("/chat/completions", request, {
+        headers: this.authHeaders(key),
+        signal: timeoutSignal(600000, signal),
+      });
+    }
+
+    const response = await this.client.post<string>(
+      "/chat/completions",
+      { ...request, stream: true, stream_options: { include_usage: true } },
+      {
+        headers: this.authHeaders(key),
+        responseType: "text",
+        signal: timeoutSignal(600000, signal),
+      }
+    );
+    return {
+      status: response.status,
+      data: aggregateChatCompletionStream(response.data),
+    };
+  }
+
+  /**
+   * Authorization header of a request
+   * @private
+   */
+  private authHeaders(key: string): Record<string, string> {
+    return { Authorization: `Bearer ${key}` };
+  }
+
   /**
    * Validate completion response
    * Checks in order: error response body -> non-2xx status -> Zod validation
@@ -1,4 +1,9 @@
 // Export core provider definitions
+export * from "./balancer";
+export { LoadBalancer } from "./balancer";
+export * from "./breaker";
+export * from "./cassette";
+export * from "./keys";
 export * from "./manager";
 export { ProviderManager } from "./manager";
 export * from "./registry";
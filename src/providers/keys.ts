@@ -0,0 +1,306 @@
+import { readFileSync } from "node:fs";
+import { logger } from "../logger";
+import { UpstreamError } from "../type/error";
+import { Result } from "../type/result";
+
+// Error codes of exhausted quotas, cooled down like HTTP 429
+const QUOTA_ERROR_CODES = [
+  "insufficient_quota",
+  "rate_limit_exceeded",
+  "RESOURCE_EXHAUSTED",
+];
+
+// Key pools by provider name, listed by the admin endpoint
+const pools = new Map<string, KeyPool>();
+
+/**
+ * Key pool settings of a provider configuration
+ */
+export interface KeyPoolConfig {
+  api_key?: string;
+  api_keys: string[];
+  key_rotation: "round_robin" | "random";
+  key_cooldown: number;
+}
+
+/**
+ * Request statistics and state of a pooled key
+ */
+interface KeyState {
+  key: string;
+  requests: number;
+  failures: number;
+  cooldownUntil: number; // timestamp, the key is skipped until then
+  disabled: boolean; // rejected by the upstream (401/403), never used again
+  lastError?: string;
+}
+
+/**
+ * State of a pooled key as reported by the admin endpoint
+ * The key itself is masked.
+ */
+export interface KeyPoolEntry {
+  provider: string;
+  index: number; // position in the pool, masked keys may look alike
+  key: string;
+  status: "active" | "cooldown" | "disabled";
+  requests: number;
+  failures: number;
+  cooldown_until: string | null;
+  last_error: string | null;
+}
+
+/**
+ * Upstream API keys of a provider, rotated per request
+ *
+ * Keys are picked round-robin or at random. A key rejected with 429 (or a
+ * quota error code) is skipped for key_cooldown, or the Retry-After delay if
+ * that is longer (unless it is the only key). A key rejected with 401/403 is
+ * disabled until the server restarts.
+ */
+export class KeyPool {
+  readonly providerName: string;
+  private keys: KeyState[] = [];
+  private rotation: KeyPoolConfig["key_rotation"];
+  private cooldown: number;
+  private position = 0;
+
+  constructor(providerName: string, config: KeyPoolConfig) {
+    this.providerName = providerName;
+    this.rotation = config.key_rotation;
+    this.cooldown = config.key_cooldown;
+    this.add([...(config.api_key ? [config.api_key] : []), ...config.api_keys]);
+  }
+
+  /**
+   * Number of keys in the pool
+   */
+  get size(): number {
+    return this.keys.length;
+  }
+
+  /**
+   * Add the keys of a keys file (one key per line, # starts a comment)
+   * @param path Path to the keys file
+   * @returns Result<void>, err if the file cannot be read or has no keys
+   */
+  loadFile(path: string): Result<void> {
+    let content: string;
+    try {
+      content = readFileSync(path, "utf-8");
+    } catch (error) {
+      return Result<void>(
+        new Error(
+          `Failed to read keys file ${path}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        )
+      );
+    }
+
+    const keys = content
+      .split(/\r?\n/)
+      .map((line) => line.replace(/#.*/, "").trim())
+      .filter(Boolean);
+    if (keys.length === 0) {
+      return Result<void>(new Error(`Keys file ${path} contains no keys`));
+    }
+    this.add(keys);
+    logger.debug("Loaded API keys file", {
+      name: this.providerName,
+      path,
+      keyCount: keys.length,
+    });
+    return Result<void>(undefined as void);
+  }
+
+  /**
+   * Pick the key for the next request
+   * @returns Result<string>
+   * - If successful: Result with data containing the key, err = null
+   * - If failed: UpstreamError, 429 with the time until the first key is
+   *   available again if all keys are cooling down, 401 if all are disabled
+   */
+  next(): Result<string> {
+    const now = Date.now();
+    const available = this.keys.filter((state) => isAvailable(state, now));
+    if (available.length === 0) {
+      const cooling = this.keys.filter((state) => !state.disabled);
+      if (cooling.length === 0) {
+        return Result<string>(
+          new UpstreamError(
+            `All API keys of provider "${this.providerName}" are disabled`,
+            { status: 401, code: "invalid_api_key" }
+          )
+        );
+      }
+      const availableAt = Math.min(
+        ...cooling.map((state) => state.cooldownUntil)
+      );
+      return Result<string>(
+        new UpstreamError(
+          `All API keys of provider "${this.providerName}" are cooling down`,
+          { status: 429, retryAfter: availableAt - now }
+        )
+      );
+    }
+
+    let state: KeyState;
+    if (this.rotation === "random") {
+      state = available[Math.floor(Math.random() * available.length)]!;
+    } else {
+      // Next available key after the previous one
+      for (let i = 0; ; i++) {
+        const candidate = this.keys[(this.position + i) % this.keys.length]!;
+        if (isAvailable(candidate, now)) {
+          this.position = (this.position + i + 1) % this.keys.length;
+          state = candidate;
+          break;
+        }
+      }
+    }
+    state.requests++;
+    return Result<string>(state.key);
+  }
+
+  /**
+   * Record a failed request made with a key
+   * 429 and quota errors put the key in cooldown, 401/403 disable it.
+   * Aborted requests are not counted.
+   * @param key Key of the request
+   * @param err Error of the request
+   * @returns The error to return for the request. If the key was taken out
+   *   of rotation and another key is available, the error is replaced by a
+   *   retryable one without status and Retry-After (code "api_key_rotated"),
+   *   so the retry uses the next key right away without using up an attempt
+   *   (see isKeyRotation). Every rotation takes a key out, so this ends.
+   */
+  reportFailure(key: string, err: Error): Error {
+    const state = this.keys.find((state) => state.key === key);
+    if (!state || !(err instanceof UpstreamError)) {
+      return err;
+    }
+    if (err.code === "ERR_CANCELED") {
+      return err;
+    }
+    state.failures++;
+    state.lastError = err.message;
+
+    if (err.status === 401 || err.status === 403) {
+      state.disabled = true;
+      logger.error("API key rejected by upstream, disabling it", {
+        name: this.providerName,
+        keyPrefix: maskKey(key),
+        status: err.status,
+      });
+    } else if (
+      err.status === 429 ||
+      (err.code !== undefined && QUOTA_ERROR_CODES.includes(err.code))
+    ) {
+      // Nothing to rotate to, the retry policy follows the upstream's Retry-After
+      if (this.keys.length === 1) {
+        return err;
+      }
+      const cooldown = Math.max(err.retryAfter ?? 0, this.cooldown);
+      state.cooldownUntil = Date.now() + cooldown;
+      logger.warn("API key rate limited, cooling down", {
+        name: this.providerName,
+        keyPrefix: maskKey(key),
+        cooldown,
+      });
+    } else {
+      return err;
+    }
+
+    const now = Date.now();
+    if (!this.keys.some((state) => isAvailable(state, now))) {
+      return err;
+    }
+    return new UpstreamError(`${err.message} (trying another API key)`, {
+      code: "api_key_rotated",
+    });
+  }
+
+  /**
+   * Get the state of all keys, with masked keys
+   */
+  entries(): KeyPoolEntry[] {
+    const now = Date.now();
+    return this.keys.map((state, index) => ({
+      provider: this.providerName,
+      index,
+      key: maskKey(state.key),
+      status: state.disabled
+        ? "disabled"
+        : state.cooldownUntil > now
+          ? "cooldown"
+          : "active",
+      requests: state.requests,
+      failures: state.failures,
+      cooldown_until:
+        state.cooldownUntil > now
+          ? new Date(state.cooldownUntil).toISOString()
+          : null,
+      last_error: state.lastError ?? null,
+    }));
+  }
+
+  /**
+   * Add keys, skipping duplicates
+   * @private
+   */
+  private add(keys: string[]): void {
+    for (const key of keys) {
+      if (!this.keys.some((state) => state.key === key)) {
+        this.keys.push({
+          key,
+          requests: 0,
+          failures: 0,
+          cooldownUntil: 0,
+          disabled: false,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Create and register the key pool of a provider
+ * @param providerName Provider name
+ * @param config Provider configuration (key settings)
+ */
+export function createKeyPool(
+  providerName: string,
+  config: KeyPoolConfig
+): KeyPool {
+  const pool = new KeyPool(providerName, config);
+  pools.set(providerName, pool);
+  return pool;
+}
+
+/**
+ * Remove the key pool of a provider (provider destroyed)
+ * @param providerName Provider name
+ */
+export function removeKeyPool(providerName: string): void {
+  pools.delete(providerName);
+}
+
+/**
+ * Get the key pools of all providers
+ */
+export function getKeyPools(): KeyPool[] {
+  return Array.from(pools.values());
+}
+
+/**
+ * Mask a key for logs and the admin endpoint
+ * Keeps a prefix of at most 8 characters (a quarter of short keys)
+ */
+export function maskKey(key: string): string {
+  return key.slice(0, Math.min(8, Math.floor(key.length / 4))) + "...";
+}
+
+function isAvailable(state: KeyState, now: number): boolean {
+  return !state.disabled && state.cooldownUntil <= now;
+}
@@ -2,6 +2,8 @@ import { getConfig, getProviderConfig, type ProviderConfig } from "../config";
 import { logger } from "../logger";
 import { Result } from "../type/result";
 import { FilterUtil } from "../utils";
+import { CircuitBreaker } from "./breaker";
+import { removeKeyPool } from "./keys";
 import { ProviderRegistry } from "./registry";
 import type { ModelAlias, ModelsList, ProviderClient } from "./types";
 
@@ -12,6 +14,7 @@ import type { ModelAlias, ModelsList, ProviderClient } from "./types";
  * - Initialize and manage provider clients
  * - Maintain model alias to provider mapping (ModelAlias -> provider_name)
  * - Refresh provider models and update mapping
+ * - Track the circuit breakers of providers (or models)
  * - Destroy providers and clean up mappings
  *
  * Does NOT handle business logic or request routing.
@@ -21,6 +24,8 @@ class ProviderManagerImpl {
   private clients = new Map<string, ProviderClient>();
   // Mapping: ModelAlias (provider_name/model_id) -> provider name
   private modelAliasesMapping = new Map<ModelAlias, string>();
+  // Circuit breakers by provider name (or ModelAlias with scope "model")
+  private circuitBreakers = new Map<string, CircuitBreaker>();
 
   /**
    * Initialize all enabled providers from configuration
@@ -188,6 +193,7 @@ class ProviderManagerImpl {
    *
    * Removes:
    * - All model mappings for this provider
+   * - The circuit breakers of this provider
    * - The provider client from registry
    *
    * @param name Provider name
@@ -201,6 +207,16 @@ class ProviderManagerImpl {
     // Remove all models associated with this provider
     this.removeModels(name);
 
+    // Remove the circuit breakers
+    for (const breaker of this.circuitBreakers.values()) {
+      if (breaker.name === name || breaker.name.startsWith(`${name}/`)) {
+        this.circuitBreakers.delete(breaker.name);
+      }
+    }
+
+    // Remove the key pool, so the admin endpoint no longer lists it
+    removeKeyPool(name);
+
     // Remove the client
     this.clients.delete(name);
 
@@ -290,6 +306,43 @@ class ProviderManagerImpl {
     return this.clients.get(name);
   }
 
+  /**
+   * Get the circuit breaker guarding requests to a provider model
+   * Created on first use; the provider's circuit_breaker settings override
+   * the global policy.
+   * @param providerName Provider name
+   * @param model Model ID (used with scope "model")
+   * @returns Circuit breaker, or undefined if circuit breaking is disabled
+   */
+  getCircuitBreaker(
+    providerName: string,
+    model: string
+  ): CircuitBreaker | undefined {
+    const config = getConfig();
+    const { enabled, scope, ...policy } = config.advanced.circuitBreaker;
+    if (!enabled) {
+      return undefined;
+    }
+
+    const name = scope === "model" ? `${providerName}/${model}` : providerName;
+    let breaker = this.circuitBreakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(name, {
+        ...policy,
+        ...getProviderConfig(config, providerName)?.circuit_breaker,
+      });
+      this.circuitBreakers.set(name, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Get all circuit breakers created so far
+   */
+  getCircuitBreakers(): CircuitBreaker[] {
+    return Array.from(this.circuitBreakers.values());
+  }
+
   /**
    * Get the model alias to provider mapping
    * Used by ProviderRouter for routing requests
@@ -1,4 +1,5 @@
 import type { ProviderConfig } from "../config/schema";
+import { withCassette } from "./cassette";
 import type { ProviderClient, ProviderFactory } from "./types";
 import { ProviderType } from "./types";
 
@@ -20,8 +21,10 @@ class ProviderRegistryImpl {
    * @param type Provider type (e.g., ProviderType.OpenAI)
    * @param factory Factory function to create provider client instances
    */
-  register(type: ProviderType, factory: ProviderFactory): void {
-    this.factories.set(type, factory);
+  register<T extends ProviderType>(type: T, factory: ProviderFactory<T>): void {
+    // Factories are looked up by config.type, so they only ever receive
+    // the configuration branch of their own type
+    this.factories.set(type, factory as ProviderFactory);
   }
 
   /**
@@ -33,7 +36,7 @@ class ProviderRegistryImpl {
    *
    * @param name Provider name (used for isolation, e.g., "my-openai")
    * @param config Provider configuration (endpoint, api_key, etc.)
-   * @returns Provider client instance
+   * @returns Provider client instance (wrapped with record/replay if configured)
    * @throws Error if provider type is not registered or invalid
    */
   createClient(name: string, config: ProviderConfig): ProviderClient {
@@ -53,7 +56,8 @@ class ProviderRegistryImpl {
       throw new Error(`Invalid provider type: ${type}`);
     }
 
-    return factory(name, { ...config, type });
+    // Wrap with record/replay if configured
+    return withCassette(factory(name, config), config);
   }
 
   /**
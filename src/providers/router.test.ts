@@ -0,0 +1,104 @@
+import { afterAll, afterEach, describe, expect, spyOn, test } from "bun:test";
+import { chatRequest, configure } from "../test/setup";
+import { CircuitOpenError } from "../type/error";
+import { MockProviderClient } from "./impl/mock";
+import { ProviderRouter } from "./router";
+
+const completion = spyOn(MockProviderClient.prototype, "completion");
+
+// OpenAI-compatible upstream whose streams fail after the first chunk
+const upstream = Bun.serve({
+  port: 0,
+  fetch(request) {
+    if (new URL(request.url).pathname.endsWith("/models")) {
+      return Response.json({
+        object: "list",
+        data: [{ id: "gpt", object: "model", created: 0, owned_by: "test" }],
+      });
+    }
+    const chunk = {
+      id: "chatcmpl-test",
+      object: "chat.completion.chunk",
+      created: 0,
+      model: "gpt",
+      choices: [{ index: 0, delta: { content: "Hel" }, finish_reason: null }],
+    };
+    return new Response(
+      `data: ${JSON.stringify(chunk)}\n\n` +
+        `data: ${JSON.stringify({ error: { message: "Upstream overloaded" } })}\n\n`,
+      { headers: { "Content-Type": "text/event-stream" } }
+    );
+  },
+});
+
+afterEach(() => completion.mockClear());
+afterAll(() => {
+  completion.mockRestore();
+  upstream.stop(true);
+});
+
+describe("circuit breaker", () => {
+  test("opens after failureThreshold consecutive failures", async () => {
+    await configure({
+      advanced: { circuitBreaker: { enabled: true, failureThreshold: 2 } },
+      providers: {
+        mock: { type: "mock", response: { mode: "error", status: 503 } },
+      },
+    });
+    for (let i = 0; i < 2; i++) {
+      const { err } = await ProviderRouter.completion(chatRequest("mock/mock"));
+      expect(err).not.toBeInstanceOf(CircuitOpenError);
+    }
+    const { err } = await ProviderRouter.completion(chatRequest("mock/mock"));
+    expect(err).toBeInstanceOf(CircuitOpenError);
+    expect(completion).toHaveBeenCalledTimes(2);
+  });
+
+  test("client errors do not open the circuit", async () => {
+    await configure({
+      advanced: { circuitBreaker: { enabled: true, failureThreshold: 2 } },
+      providers: {
+        mock: { type: "mock", response: { mode: "error", status: 400 } },
+      },
+    });
+    for (let i = 0; i < 3; i++) {
+      const { err } = await ProviderRouter.completion(chatRequest("mock/mock"));
+      expect(err).not.toBeInstanceOf(CircuitOpenError);
+    }
+    expect(completion).toHaveBeenCalledTimes(3);
+  });
+
+  test("streams failing midway count as failures", async () => {
+    await configure({
+      advanced: { circuitBreaker: { enabled: true, failureThreshold: 1 } },
+      providers: {
+        up: {
+          type: "openai",
+          endpoint: `${upstream.url.origin}/v1`,
+          api_key: "sk-upstream",
+          stream_mode: "passthrough",
+        },
+      },
+    });
+    const { stream, err } = await ProviderRouter.stream(
+      chatRequest("up/gpt", "Hello", { stream: true })
+    );
+    expect(err).toBeNull();
+    const chunks: unknown[] = [];
+    let streamErr: Error | null = null;
+    try {
+      for await (const chunk of stream!) {
+        chunks.push(chunk);
+      }
+    } catch (error) {
+      streamErr = error as Error;
+    }
+    expect(streamErr?.message).toContain("Upstream overloaded");
+    expect(chunks.length).toBeGreaterThan(0);
+
+    const { err: circuitErr } = await ProviderRouter.stream(
+      chatRequest("up/gpt", "Hello", { stream: true })
+    );
+    expect(circuitErr).toBeInstanceOf(CircuitOpenError);
+  });
+});
@@ -1,11 +1,37 @@
+import {
+  getConfig,
+  getProviderConfig,
+  type ProviderConfig,
+  type ResponseValidator,
+} from "../config";
 import { logger } from "../logger";
-import type {
-  ChatCompletionsRequest,
-  ChatCompletionsResponse,
+import {
+  ChatCompletionsRequestSchema,
+  type ChatCompletionChunk,
+  type ChatCompletionsRequest,
+  type ChatCompletionsResponse,
 } from "../schemas/openai";
+import { CircuitOpenError, UpstreamError } from "../type/error";
 import { Result } from "../type/result";
+import { applyThinkTags, inlineRemoteImages, isCancellation } from "../utils";
+import { LoadBalancer } from "./balancer";
+import type { CircuitRelease } from "./breaker";
 import { ProviderManager } from "./manager";
-import type { ModelAlias, ModelsList } from "./types";
+import {
+  ProviderType,
+  type ModelAlias,
+  type ModelsList,
+  type ProviderClient,
+} from "./types";
+
+/**
+ * Resolved routing target of a ModelAlias
+ */
+interface Route {
+  providerName: string;
+  client: ProviderClient;
+  actualModel: string;
+}
 
 /**
  * Provider router for routing requests to the correct provider
@@ -21,7 +47,8 @@ import type { ModelAlias, ModelsList } from "./types";
 class ProviderRouterImpl {
   /**
    * Get all available models
-   * Returns all ModelAlias values (format: "provider_name/model_id")
+   * Returns all ModelAlias values (format: "provider_name/model_id") and
+   * the names of the virtual models
    * @returns Promise that resolves with Result<ModelsList>
    * - If successful: Result with data containing all models (as ModelAlias), err = null
    * - If failed: Result with err containing the error
@@ -32,9 +59,21 @@ class ProviderRouterImpl {
     const modelsList: ModelsList = modelAliases.map((alias) => ({
       id: alias,
     }));
+    for (const name of LoadBalancer.virtualModels()) {
+      if (!modelAliasesMapping.has(name)) {
+        modelsList.push({ id: name, owned_by: "virtual" });
+      }
+    }
     return Result<ModelsList>(modelsList);
   }
 
+  /**
+   * Fields defined by the request schema, anything else is a passthrough parameter
+   */
+  private knownRequestFields = new Set(
+    Object.keys(ChatCompletionsRequestSchema.shape)
+  );
+
   /**
    * Create a chat completion
    * Automatically routes to the correct provider based on the ModelAlias.
@@ -43,23 +82,335 @@ class ProviderRouterImpl {
    *
    * Note: The stream parameter is forced to false to prevent streaming responses.
    * This ensures non-streaming requests to upstream providers.
+   * (Providers in aggregate mode stream internally, but still return a
+   * single non-stream response.)
+   *
+   * Unknown request fields are forwarded as-is, unless the provider's
+   * passthrough whitelist/blacklist excludes them.
+   *
+   * Remote image_url parts are downloaded and inlined as base64 data URLs
+   * if the provider has inline_images enabled (once per request, retries
+   * reuse the downloads).
+   *
+   * `<think>`-tagged text in the response content is extracted into
+   * reasoning_content or stripped if the provider has think_tags set.
+   *
+   * Virtual models are resolved to one of their members by the LoadBalancer,
+   * the selected member is returned in served_model.
+   *
+   * Requests are rejected with a CircuitOpenError while the circuit breaker
+   * of the provider (or model) is open.
    *
    * @param request Chat completion request (model field should be a ModelAlias)
+   * @param signal Optional abort signal, cancels the upstream request
    * @returns Promise that resolves with Result<ChatCompletionsResponse>
    * - If successful: Result with data containing the response, err = null
    * - If failed: Result with err containing the error
    */
   async completion(
-    request: ChatCompletionsRequest
+    request: ChatCompletionsRequest,
+    signal?: AbortSignal
   ): Promise<Result<ChatCompletionsResponse>> {
     const modelAlias: ModelAlias = request.model;
+    if (this.isVirtualModel(modelAlias)) {
+      return this.virtualCompletion(request, signal);
+    }
     logger.debug("Routing completion request", { modelAlias });
+    let route: Route | null | undefined;
+    let routeErr: Error | null = null;
+    ({ route, err: routeErr } = this.resolveRoute(modelAlias));
+    if (routeErr || !route) {
+      return Result<ChatCompletionsResponse>(
+        routeErr || new Error(`ModelAlias "${modelAlias}" not found`)
+      );
+    }
+    const { providerName, client, actualModel } = route;
+
+    // Create a new request with the trimmed model name
+    // Force stream to false to prevent streaming responses
+    // (stream_options is only valid for streaming requests)
+    // Built before entering the circuit, image downloads hold no probe slot
+    const { stream_options, ...rest } = request;
+    const providerRequest = await this.buildProviderRequest(
+      providerName,
+      { ...rest, model: actualModel, stream: false },
+      signal
+    );
+    let done: CircuitRelease | null | undefined;
+    let circuitErr: Error | null = null;
+    ({ done, err: circuitErr } = this.enterCircuit(providerName, actualModel));
+    if (circuitErr) {
+      return Result<ChatCompletionsResponse>(circuitErr);
+    }
+    const providerConfig = getProviderConfig(getConfig(), providerName);
+
+    logger.debug("Forwarding request to provider", {
+      providerName,
+      model: actualModel,
+    });
+    let response: ChatCompletionsResponse | null | undefined;
+    let err: Error | null = null;
+    ({ response, err } = await client.completion(providerRequest, signal));
+    done?.(err);
+
+    if (err || !response) {
+      // Cancelled requests (client disconnects, hedges that lost) are expected
+      if (signal?.aborted || (err && isCancellation(err))) {
+        logger.debug("Completion request aborted", {
+          providerName,
+          model: actualModel,
+        });
+      } else {
+        logger.error("Completion request failed", {
+          providerName,
+          model: actualModel,
+          error: err?.message,
+        });
+      }
+      return Result<ChatCompletionsResponse>(
+        err || new Error("Completion failed")
+      );
+    } else {
+      logger.debug("Completion request succeeded", {
+        providerName,
+        model: actualModel,
+      });
+    }
+
+    if (providerConfig?.think_tags) {
+      response = applyThinkTags(response, providerConfig.think_tags);
+    }
+
+    return Result<ChatCompletionsResponse>(response);
+  }
+
+  /**
+   * Create a chat completion of a virtual model
+   * One member is selected per call, so retries may land on another member.
+   * @private
+   */
+  private async virtualCompletion(
+    request: ChatCompletionsRequest,
+    signal?: AbortSignal
+  ): Promise<Result<ChatCompletionsResponse>> {
+    const name = request.model;
+    let member: ModelAlias | null | undefined;
+    let memberErr: Error | null = null;
+    ({ member, err: memberErr } = LoadBalancer.select(name));
+    if (memberErr || !member) {
+      return Result<ChatCompletionsResponse>(
+        memberErr || new Error(`Virtual model "${name}" not found`)
+      );
+    }
+
+    logger.debug("Routing virtual model request", { name, member });
+    const done = LoadBalancer.track(name, member);
+    const { response, err } = await this.completion(
+      { ...request, model: member },
+      signal
+    );
+    done(err);
+    if (err || !response) {
+      return Result<ChatCompletionsResponse>(
+        err || new Error("Completion failed")
+      );
+    }
+    return Result<ChatCompletionsResponse>({
+      ...response,
+      served_model: response.served_model ?? member,
+    });
+  }
+
+  /**
+   * Get the configuration of the provider serving a ModelAlias
+   * @param modelAlias ModelAlias (format: "provider_name/model_id")
+   * @returns Provider configuration, or undefined if the alias is unknown
+   */
+  getProviderConfig(modelAlias: ModelAlias): ProviderConfig | undefined {
+    const providerName =
+      ProviderManager.getModelAliasesMapping().get(modelAlias);
+    return providerName
+      ? getProviderConfig(getConfig(), providerName)
+      : undefined;
+  }
+
+  /**
+   * Get the stream mode for a ModelAlias
+   * Per-model overrides take precedence over the provider's stream_mode.
+   * Passthrough is only used if the provider client can stream.
+   * Virtual models are always fake-streamed.
+   * @param modelAlias ModelAlias (format: "provider_name/model_id")
+   * @returns "passthrough" to relay upstream chunks, "fake" otherwise
+   */
+  streamMode(modelAlias: ModelAlias): "fake" | "passthrough" {
+    if (this.isVirtualModel(modelAlias)) {
+      return "fake";
+    }
+    const { route } = this.resolveRoute(modelAlias);
+    if (!route || !route.client.stream) {
+      return "fake";
+    }
+    const providerConfig = getProviderConfig(getConfig(), route.providerName);
+    if (
+      providerConfig?.type !== ProviderType.OpenAI &&
+      providerConfig?.type !== ProviderType.AzureOpenAI
+    ) {
+      return "fake";
+    }
+    return (
+      providerConfig.stream_mode_overrides[route.actualModel] ??
+      providerConfig.stream_mode
+    );
+  }
+
+  /**
+   * Get the response validators for a ModelAlias
+   * Rules restricted to other models (by model ID) are left out.
+   * @param modelAlias ModelAlias (format: "provider_name/model_id")
+   * @returns Validator rules in configured order
+   */
+  responseValidators(modelAlias: ModelAlias): ResponseValidator[] {
+    const { route } = this.resolveRoute(modelAlias);
+    if (!route) {
+      return [];
+    }
+    const validators =
+      getProviderConfig(getConfig(), route.providerName)?.validators ?? [];
+    return validators.filter(
+      (validator) =>
+        !validator.models || validator.models.includes(route.actualModel)
+    );
+  }
+
+  /**
+   * Create a streaming chat completion (passthrough stream mode)
+   * Routes like completion(), but relays the upstream chunks. The model of
+   * every chunk is swapped back to the ModelAlias.
+   * The outcome is recorded in the circuit breaker once the stream ended, so
+   * streams failing midway count as failures.
+   * @param request Chat completion request (model field should be a ModelAlias)
+   * @param signal Optional abort signal, cancels the upstream request
+   * @returns Promise that resolves with Result<AsyncIterable<ChatCompletionChunk>>
+   * - If successful: Result with data containing the chunk stream, err = null
+   * - If failed: Result with err containing the error
+   */
+  async stream(
+    request: ChatCompletionsRequest,
+    signal?: AbortSignal
+  ): Promise<Result<AsyncIterable<ChatCompletionChunk>>> {
+    const modelAlias: ModelAlias = request.model;
+    logger.debug("Routing streaming completion request", { modelAlias });
+    let route: Route | null | undefined;
+    let routeErr: Error | null = null;
+    ({ route, err: routeErr } = this.resolveRoute(modelAlias));
+    if (routeErr || !route) {
+      return Result<AsyncIterable<ChatCompletionChunk>>(
+        routeErr || new Error(`ModelAlias "${modelAlias}" not found`)
+      );
+    }
+    const { providerName, client, actualModel } = route;
+    if (!client.stream) {
+      return Result<AsyncIterable<ChatCompletionChunk>>(
+        new Error(`Provider "${providerName}" does not support streaming`)
+      );
+    }
+    const providerRequest = await this.buildProviderRequest(
+      providerName,
+      { ...request, model: actualModel, stream: true },
+      signal
+    );
+    let done: CircuitRelease | null | undefined;
+    let circuitErr: Error | null = null;
+    ({ done, err: circuitErr } = this.enterCircuit(providerName, actualModel));
+    if (circuitErr) {
+      return Result<AsyncIterable<ChatCompletionChunk>>(circuitErr);
+    }
+
+    logger.debug("Forwarding streaming request to provider", {
+      providerName,
+      model: actualModel,
+    });
+    let stream: AsyncIterable<ChatCompletionChunk> | null | undefined;
+    let err: Error | null = null;
+    ({ stream, err } = await client.stream(providerRequest, signal));
+    if (err || !stream) {
+      done?.(err || new Error("Streaming completion failed"));
+      if (signal?.aborted || (err && isCancellation(err))) {
+        logger.debug("Streaming completion request aborted", {
+          providerName,
+          model: actualModel,
+        });
+      } else {
+        logger.error("Streaming completion request failed", {
+          providerName,
+          model: actualModel,
+          error: err?.message,
+        });
+      }
+      return Result<AsyncIterable<ChatCompletionChunk>>(
+        err || new Error("Streaming completion failed")
+      );
+    }
+
+    const aliased = withModelAlias(stream, modelAlias);
+    return Result<AsyncIterable<ChatCompletionChunk>>(
+      done ? withCircuitOutcome(aliased, done, signal) : aliased
+    );
+  }
+
+  /**
+   * Check if a model is a virtual model (ModelAliases take precedence)
+   * @private
+   */
+  private isVirtualModel(model: string): boolean {
+    return (
+      LoadBalancer.isVirtualModel(model) &&
+      !ProviderManager.getModelAliasesMapping().has(model)
+    );
+  }
+
+  /**
+   * Pass a request through the circuit breaker of a provider model
+   * @returns Result with the callback recording the outcome (null if
+   *   circuit breaking is disabled), or a CircuitOpenError if rejected
+   * @private
+   */
+  private enterCircuit(
+    providerName: string,
+    model: string
+  ): Result<CircuitRelease | null> {
+    const breaker = ProviderManager.getCircuitBreaker(providerName, model);
+    if (!breaker) {
+      return Result<CircuitRelease | null>(null);
+    }
+    const done = breaker.acquire();
+    if (!done) {
+      logger.warn("Circuit breaker open, request rejected", {
+        providerName,
+        model,
+        circuit: breaker.name,
+      });
+      return Result<CircuitRelease | null>(
+        new CircuitOpenError(`Circuit breaker "${breaker.name}" is open`, {
+          retryAfter: breaker.retryAfter,
+        })
+      );
+    }
+    return Result<CircuitRelease | null>(done);
+  }
+
+  /**
+   * Resolve the provider client and actual model ID of a ModelAlias
+   * The provider_name/ prefix is trimmed from the ModelAlias.
+   * @private
+   */
+  private resolveRoute(modelAlias: ModelAlias): Result<Route> {
     const modelAliasesMapping = ProviderManager.getModelAliasesMapping();
     const providerName = modelAliasesMapping.get(modelAlias);
 
     if (!providerName) {
       logger.warn("ModelAlias not found", { modelAlias });
-      return Result<ChatCompletionsResponse>(
+      return Result<Route>(
         new Error(
           `ModelAlias "${modelAlias}" not found or provider not available`
         )
@@ -69,9 +420,7 @@ class ProviderRouterImpl {
     const client = ProviderManager.getClient(providerName);
     if (!client) {
       logger.error("Provider client not found", { providerName, modelAlias });
-      return Result<ChatCompletionsResponse>(
-        new Error(`Provider "${providerName}" not found`)
-      );
+      return Result<Route>(new Error(`Provider "${providerName}" not found`));
     }
 
     // Trim the provider_name/ prefix from the ModelAlias to get the actual model ID
@@ -80,42 +429,135 @@ class ProviderRouterImpl {
       ? modelAlias.slice(modelPrefix.length)
       : modelAlias;
 
-    // Create a new request with the trimmed model name
-    // Force stream to false to prevent streaming responses
-    const providerRequest: ChatCompletionsRequest = {
-      ...request,
-      model: actualModel,
-      stream: false,
-    };
+    return Result<Route>({ providerName, client, actualModel });
+  }
 
-    logger.debug("Forwarding request to provider", {
-      providerName,
-      model: actualModel,
-    });
-    let response: ChatCompletionsResponse | null | undefined;
-    let err: Error | null = null;
-    ({ response, err } = await client.completion(providerRequest));
+  /**
+   * Apply the provider's request settings (passthrough filter, image inlining)
+   * @private
+   */
+  private async buildProviderRequest(
+    providerName: string,
+    request: ChatCompletionsRequest,
+    signal?: AbortSignal
+  ): Promise<ChatCompletionsRequest> {
+    const providerRequest = this.applyPassthrough(providerName, request);
+    if (getProviderConfig(getConfig(), providerName)?.inline_images) {
+      return inlineRemoteImages(providerRequest, signal);
+    }
+    return providerRequest;
+  }
 
-    if (err || !response) {
-      logger.error("Completion request failed", {
-        providerName,
-        model: actualModel,
-        error: err?.message,
-      });
-      return Result<ChatCompletionsResponse>(
-        err || new Error("Completion failed")
-      );
-    } else {
-      logger.debug("Completion request succeeded", {
+  /**
+   * Remove passthrough parameters not allowed by the provider configuration
+   * - whitelist: only listed unknown fields are forwarded
+   * - blacklist: listed unknown fields are removed, others are forwarded
+   * Fields defined by the request schema are never removed.
+   * @private
+   */
+  private applyPassthrough(
+    providerName: string,
+    request: ChatCompletionsRequest
+  ): ChatCompletionsRequest {
+    const passthrough = getProviderConfig(
+      getConfig(),
+      providerName
+    )?.passthrough;
+    if (!passthrough) {
+      return request;
+    }
+
+    const params = new Set(passthrough.params);
+    const removed: string[] = [];
+    const filtered: ChatCompletionsRequest = { ...request };
+    for (const key of Object.keys(filtered)) {
+      if (this.knownRequestFields.has(key)) {
+        continue;
+      }
+      const allowed =
+        passthrough.mode === "whitelist" ? params.has(key) : !params.has(key);
+      if (!allowed) {
+        delete filtered[key];
+        removed.push(key);
+      }
+    }
+
+    if (removed.length > 0) {
+      logger.debug("Removed passthrough parameters", {
         providerName,
-        model: actualModel,
+        mode: passthrough.mode,
+        removed,
       });
     }
+    return filtered;
+  }
+}
 
-    return Result<ChatCompletionsResponse>(response);
+/**
+ * Swap the model of every chunk back to the ModelAlias
+ */
+async function* withModelAlias(
+  stream: AsyncIterable<ChatCompletionChunk>,
+  modelAlias: ModelAlias
+): AsyncGenerator<ChatCompletionChunk> {
+  for await (const chunk of stream) {
+    yield { ...chunk, model: modelAlias };
   }
 }
 
+/**
+ * Record the outcome of a stream in its circuit breaker once it ends
+ * A stream that fails midway is a failure. Streams cancelled by the signal
+ * or closed early by the consumer (retries of empty responses, client
+ * disconnects) only release the circuit.
+ */
+function withCircuitOutcome(
+  stream: AsyncIterable<ChatCompletionChunk>,
+  done: CircuitRelease,
+  signal?: AbortSignal
+): AsyncIterable<ChatCompletionChunk> {
+  const iterator = stream[Symbol.asyncIterator]();
+  let settled = false;
+  const settle = (err: Error | null) => {
+    if (!settled) {
+      settled = true;
+      done(err);
+    }
+  };
+  const cancelled = () =>
+    new UpstreamError("Stream closed before it ended", {
+      code: "ERR_CANCELED",
+    });
+
+  return {
+    [Symbol.asyncIterator]: () => ({
+      async next() {
+        try {
+          const result = await iterator.next();
+          if (result.done) {
+            settle(null);
+          }
+          return result;
+        } catch (error) {
+          settle(
+            signal?.aborted
+              ? cancelled()
+              : error instanceof Error
+                ? error
+                : new Error(String(error))
+          );
+          throw error;
+        }
+      },
+      async return(value?: unknown) {
+        settle(cancelled());
+        await iterator.return?.(value);
+        return { done: true, value: undefined };
+      },
+    }),
+  };
+}
+
 /**
  * Global provider router instance
  */
@@ -1,5 +1,6 @@
 import type { ProviderConfig } from "../config/schema";
 import type {
+  ChatCompletionChunk,
   ChatCompletionsRequest,
   ChatCompletionsResponse,
 } from "../schemas/openai";
@@ -10,16 +11,19 @@ import type { Result } from "../type/result";
  */
 export enum ProviderType {
   OpenAI = "openai",
-  // GoogleAI = "google-ai",
-  // Anthropic = "anthropic",
+  GoogleAI = "google-ai",
+  Anthropic = "anthropic",
+  Ollama = "ollama",
+  AzureOpenAI = "azure-openai",
+  Mock = "mock",
 }
 
 /**
  * Provider configuration with validated type
+ * Narrowed to the configuration branch of the given provider type
  */
-export interface TypedProviderConfig extends ProviderConfig {
-  type: ProviderType;
-}
+export type TypedProviderConfig<T extends ProviderType = ProviderType> =
+  Extract<ProviderConfig, { type: `${T}` }>;
 
 /**
  * Model alias: a scoped identifier for models in the system
@@ -79,14 +83,32 @@ export interface ProviderClient {
   /**
    * Create a chat completion
    * @param request Chat completion request
+   * @param signal Optional abort signal, cancels the upstream request
    * @returns Promise that resolves with Result<ChatCompletionsResponse>
    * - If successful: Result with data containing the response, err = null
    * - If failed: Result with err containing the error
    */
   completion(
-    request: ChatCompletionsRequest
+    request: ChatCompletionsRequest,
+    signal?: AbortSignal
   ): Promise<Result<ChatCompletionsResponse>>;
 
+  /**
+   * Create a streaming chat completion (optional)
+   * Only implemented by providers that can relay upstream chunks,
+   * used by the passthrough stream mode.
+   * @param request Chat completion request
+   * @param signal Optional abort signal, cancels the upstream request
+   * @returns Promise that resolves with Result<AsyncIterable<ChatCompletionChunk>>
+   * - If successful: Result with data containing the chunk stream, err = null
+   * - If failed: Result with err containing the error
+   * Errors after the stream started are thrown by the iterator.
+   */
+  stream?(
+    request: ChatCompletionsRequest,
+    signal?: AbortSignal
+  ): Promise<Result<AsyncIterable<ChatCompletionChunk>>>;
+
   /**
    * Get the list of available models
    * By default, this should return cached models.
@@ -110,7 +132,7 @@ export interface ProviderClient {
  * Provider factory function type
  * Used to create provider clients from configuration
  */
-export type ProviderFactory = (
+export type ProviderFactory<T extends ProviderType = ProviderType> = (
   name: string,
-  config: TypedProviderConfig
+  config: TypedProviderConfig<T>
 ) => ProviderClient;
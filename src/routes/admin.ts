@@ -0,0 +1,13 @@
+import { Elysia } from "elysia";
+import { handleKeyPools } from "../handlers";
+import { AdminMiddleware } from "../middleware/auth";
+
+/**
+ * Admin routes
+ * Require one of the app.admin_keys
+ */
+export const AdminRoutes = new Elysia({ prefix: "/admin" })
+  .use(AdminMiddleware)
+  .get("/keys", () => {
+    return handleKeyPools();
+  });
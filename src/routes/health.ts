@@ -1,15 +1,24 @@
 import { Elysia } from "elysia";
+import { ProviderManager } from "../providers/manager";
 import { getLocalISOString } from "../utils/time";
 
 /**
  * Health check route
  * This route is independent and does not require authentication
  * Used for Docker health checks and monitoring
+ * Reports the circuit breakers; status is "degraded" while any circuit is
+ * not closed (the HTTP status stays 200)
  */
 export const HealthRoutes = new Elysia({ prefix: "/health" }).get("/", () => {
+  const circuitBreakers = ProviderManager.getCircuitBreakers().map((breaker) =>
+    breaker.status()
+  );
   return {
-    status: "ok",
+    status: circuitBreakers.some((breaker) => breaker.state !== "closed")
+      ? "degraded"
+      : "ok",
     timestamp: getLocalISOString(),
     service: "nostreaming",
+    circuit_breakers: circuitBreakers,
   };
 });
@@ -1,5 +1,12 @@
 import { Elysia } from "elysia";
-import { handleCompletion, handleModels } from "../handlers";
+import { getConfig } from "../config";
+import {
+  handleCompletion,
+  handleModels,
+  handleResume,
+  parseLastEventId,
+  withServedModelField,
+} from "../handlers";
 import { AuthMiddleware } from "../middleware/auth";
 import {
   ChatCompletionsRequestSchema,
@@ -10,8 +17,40 @@ export const OpenAIRoutes = new Elysia({ prefix: "/v1" })
   .use(AuthMiddleware)
   .post(
     "/chat/completions",
-    async ({ body, set }) => {
-      const response = await handleCompletion(body);
+    async ({ body, set, token, request, headers }) => {
+      // Reconnecting client of a resumable fake stream
+      const lastEventId = headers["last-event-id"];
+      const resumeFrom =
+        getConfig().advanced.resume.enabled && lastEventId
+          ? parseLastEventId(lastEventId)
+          : null;
+      if (resumeFrom) {
+        const stream = handleResume(
+          resumeFrom.streamId,
+          resumeFrom.position,
+          token ?? undefined
+        );
+        if (stream) {
+          set.headers = {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            Connection: "keep-alive",
+          };
+          return new Response(stream);
+        }
+      }
+
+      const response = await handleCompletion(
+        body,
+        token ?? undefined,
+        request.signal
+      );
+
+      // Whitespace keep-alive, resumable and passthrough stream responses are
+      // already complete (status, headers)
+      if (response instanceof Response) {
+        return response;
+      }
 
       // If response is a stream, set SSE headers and return stream
       if (response instanceof ReadableStream) {
@@ -23,13 +62,44 @@ export const OpenAIRoutes = new Elysia({ prefix: "/v1" })
         return new Response(response);
       }
 
-      // Normal JSON response
-      return response;
+      // Normal JSON response, reporting the model that actually answered
+      if (response.served_model) {
+        set.headers["X-Served-Model"] = response.served_model;
+      }
+      return withServedModelField(response);
     },
     {
       body: ChatCompletionsRequestSchema,
     }
   )
+  .get("/chat/completions/:id/stream", ({ params, set, token, headers }) => {
+    // Resume from Last-Event-ID if given, otherwise replay the full result
+    const lastEventId = headers["last-event-id"];
+    const resumeFrom = lastEventId ? parseLastEventId(lastEventId) : null;
+    const stream = getConfig().advanced.resume.enabled
+      ? handleResume(
+          params.id,
+          resumeFrom?.streamId === params.id ? resumeFrom.position : 0,
+          token ?? undefined
+        )
+      : null;
+    if (!stream) {
+      set.status = 404;
+      return {
+        error: {
+          message: `Stream "${params.id}" not found or expired`,
+          type: "not_found_error",
+        },
+      };
+    }
+
+    set.headers = {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    };
+    return new Response(stream);
+  })
   .get(
     "/models",
     async () => {
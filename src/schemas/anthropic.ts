@@ -0,0 +1,106 @@
+import { z } from "zod";
+
+// Anthropic Messages Request (built internally, not validated)
+export type AnthropicSource =
+  | { type: "base64"; media_type: string; data: string }
+  | { type: "url"; url: string };
+
+export type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; source: AnthropicSource }
+  | { type: "document"; source: AnthropicSource; title?: string }
+  | {
+      type: "tool_use";
+      id: string;
+      name: string;
+      input: Record<string, unknown>;
+    }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+export interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: AnthropicContentBlock[];
+}
+
+export interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema: Record<string, unknown>;
+}
+
+export interface AnthropicMessagesRequest {
+  model: string;
+  messages: AnthropicMessage[];
+  max_tokens: number;
+  system?: string;
+  temperature?: number;
+  top_p?: number;
+  stop_sequences?: string[];
+  tools?: AnthropicTool[];
+  tool_choice?:
+    | { type: "auto" }
+    | { type: "any" }
+    | { type: "none" }
+    | { type: "tool"; name: string };
+  metadata?: { user_id: string };
+}
+
+// Anthropic Messages Response Schema
+export const AnthropicResponseContentBlockSchema = z
+  .object({
+    type: z.string(), // "text", "tool_use", "thinking", ...
+    text: z.string().optional(),
+    thinking: z.string().optional(), // Only for "thinking" blocks
+    id: z.string().optional(),
+    name: z.string().optional(),
+    input: z.record(z.string(), z.any()).optional(),
+  })
+  .passthrough();
+
+export const AnthropicUsageSchema = z.object({
+  input_tokens: z.number().int(),
+  output_tokens: z.number().int(),
+  cache_creation_input_tokens: z.number().int().nullable().optional(),
+  cache_read_input_tokens: z.number().int().nullable().optional(),
+});
+
+export const AnthropicMessagesResponseSchema = z.object({
+  id: z.string(),
+  type: z.literal("message"),
+  role: z.literal("assistant"),
+  model: z.string(),
+  content: z.array(AnthropicResponseContentBlockSchema),
+  stop_reason: z.string().nullable(),
+  usage: AnthropicUsageSchema,
+});
+
+// Anthropic Models Response Schema
+export const AnthropicModelSchema = z.object({
+  id: z.string(),
+  type: z.literal("model"),
+  display_name: z.string().optional(),
+  created_at: z.string().optional(), // RFC 3339 datetime
+});
+
+export const AnthropicModelsListResponseSchema = z.object({
+  data: z.array(AnthropicModelSchema),
+  has_more: z.boolean().optional(),
+  last_id: z.string().nullable().optional(),
+});
+
+// Anthropic Error Response Schema
+export const AnthropicErrorSchema = z.object({
+  type: z.literal("error"),
+  error: z.object({
+    type: z.string(),
+    message: z.string(),
+  }),
+});
+
+// Type exports for TypeScript
+export type AnthropicMessagesResponse = z.infer<
+  typeof AnthropicMessagesResponseSchema
+>;
+export type AnthropicModelsListResponse = z.infer<
+  typeof AnthropicModelsListResponseSchema
+>;
@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+// Azure OpenAI Error Response Schema
+// Unlike OpenAI, Azure errors carry a code but usually no type
+export const AzureOpenAIErrorSchema = z.object({
+  error: z.object({
+    code: z.string().nullable().optional(),
+    message: z.string(),
+    type: z.string().nullable().optional(),
+  }),
+});
+
+// Azure OpenAI Models Response Schema
+// Only used to validate the endpoint and key, deployments come from config
+export const AzureOpenAIModelsListResponseSchema = z.object({
+  data: z.array(z.object({ id: z.string() }).passthrough()),
+});
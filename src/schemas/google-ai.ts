@@ -0,0 +1,123 @@
+import { z } from "zod";
+
+// Gemini Content Schema (shared by request and response)
+export const GeminiPartSchema = z
+  .object({
+    text: z.string().optional(),
+    thought: z.boolean().optional(),
+    inlineData: z
+      .object({
+        mimeType: z.string(),
+        data: z.string(),
+      })
+      .optional(),
+    fileData: z
+      .object({
+        mimeType: z.string().optional(),
+        fileUri: z.string(),
+      })
+      .optional(),
+    functionCall: z
+      .object({
+        name: z.string(),
+        args: z.record(z.string(), z.any()).optional(),
+      })
+      .optional(),
+    functionResponse: z
+      .object({
+        name: z.string(),
+        response: z.record(z.string(), z.any()),
+      })
+      .optional(),
+  })
+  .passthrough();
+
+export const GeminiContentSchema = z.object({
+  role: z.enum(["user", "model"]).optional(),
+  parts: z.array(GeminiPartSchema).default([]),
+});
+
+// Gemini generateContent Request (built internally, not validated)
+export interface GeminiFunctionDeclaration {
+  name: string;
+  description?: string;
+  parameters?: Record<string, unknown>;
+}
+
+export interface GeminiGenerateContentRequest {
+  contents: GeminiContent[];
+  systemInstruction?: GeminiContent;
+  tools?: { functionDeclarations: GeminiFunctionDeclaration[] }[];
+  toolConfig?: {
+    functionCallingConfig: {
+      mode: "AUTO" | "ANY" | "NONE";
+      allowedFunctionNames?: string[];
+    };
+  };
+  generationConfig?: {
+    temperature?: number;
+    topP?: number;
+    candidateCount?: number;
+    maxOutputTokens?: number;
+    stopSequences?: string[];
+    presencePenalty?: number;
+    frequencyPenalty?: number;
+  };
+}
+
+// Gemini generateContent Response Schema
+export const GeminiCandidateSchema = z.object({
+  index: z.number().int().optional(),
+  content: GeminiContentSchema.optional(),
+  finishReason: z.string().optional(),
+});
+
+export const GeminiUsageMetadataSchema = z.object({
+  promptTokenCount: z.number().int().optional(),
+  candidatesTokenCount: z.number().int().optional(),
+  thoughtsTokenCount: z.number().int().optional(),
+  totalTokenCount: z.number().int().optional(),
+});
+
+export const GeminiGenerateContentResponseSchema = z.object({
+  candidates: z.array(GeminiCandidateSchema).optional(),
+  promptFeedback: z
+    .object({
+      blockReason: z.string().optional(),
+    })
+    .optional(),
+  usageMetadata: GeminiUsageMetadataSchema.optional(),
+  modelVersion: z.string().optional(),
+  responseId: z.string().optional(),
+});
+
+// Gemini Models Response Schema
+export const GeminiModelSchema = z.object({
+  name: z.string(), // Format: "models/{model_id}"
+  displayName: z.string().optional(),
+  supportedGenerationMethods: z.array(z.string()).optional(),
+});
+
+export const GeminiModelsListResponseSchema = z.object({
+  models: z.array(GeminiModelSchema).default([]),
+  nextPageToken: z.string().optional(),
+});
+
+// Google API Error Response Schema
+export const GoogleAIErrorSchema = z.object({
+  error: z.object({
+    code: z.number().int(),
+    message: z.string(),
+    status: z.string().optional(),
+  }),
+});
+
+// Type exports for TypeScript
+export type GeminiPart = z.infer<typeof GeminiPartSchema>;
+export type GeminiContent = z.infer<typeof GeminiContentSchema>;
+export type GeminiGenerateContentResponse = z.infer<
+  typeof GeminiGenerateContentResponseSchema
+>;
+export type GeminiModelsListResponse = z.infer<
+  typeof GeminiModelsListResponseSchema
+>;
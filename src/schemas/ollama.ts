@@ -0,0 +1,74 @@
+import { z } from "zod";
+
+// Ollama Chat Message (shared by request and response)
+export const OllamaToolCallSchema = z.object({
+  function: z.object({
+    name: z.string(),
+    arguments: z.record(z.string(), z.any()).default({}),
+  }),
+});
+
+export const OllamaMessageSchema = z.object({
+  role: z.enum(["system", "user", "assistant", "tool"]),
+  content: z.string().default(""),
+  thinking: z.string().optional(),
+  images: z.array(z.string()).optional(), // base64 encoded images (no data URL prefix)
+  tool_calls: z.array(OllamaToolCallSchema).optional(),
+  tool_name: z.string().optional(), // Name of the tool for role "tool"
+});
+
+// Ollama Chat Request (built internally, not validated)
+export interface OllamaChatRequest {
+  model: string;
+  messages: OllamaMessage[];
+  stream: false;
+  tools?: {
+    type: "function";
+    function: {
+      name: string;
+      description?: string;
+      parameters?: Record<string, unknown>;
+    };
+  }[];
+  options?: {
+    temperature?: number;
+    top_p?: number;
+    num_predict?: number;
+    stop?: string[];
+    presence_penalty?: number;
+    frequency_penalty?: number;
+  };
+}
+
+// Ollama Chat Response Schema
+export const OllamaChatResponseSchema = z.object({
+  model: z.string(),
+  created_at: z.string(),
+  message: OllamaMessageSchema,
+  done: z.boolean(),
+  done_reason: z.string().optional(),
+  prompt_eval_count: z.number().int().optional(),
+  eval_count: z.number().int().optional(),
+});
+
+// Ollama Tags (local models) Response Schema
+export const OllamaModelSchema = z.object({
+  name: z.string(),
+  model: z.string().optional(),
+  modified_at: z.string().optional(),
+  size: z.number().optional(),
+});
+
+export const OllamaTagsResponseSchema = z.object({
+  models: z.array(OllamaModelSchema),
+});
+
+// Ollama Error Response Schema
+export const OllamaErrorSchema = z.object({
+  error: z.string(),
+});
+
+// Type exports for TypeScript
+export type OllamaMessage = z.infer<typeof OllamaMessageSchema>;
+export type OllamaChatResponse = z.infer<typeof OllamaChatResponseSchema>;
+export type OllamaTagsResponse = z.infer<typeof OllamaTagsResponseSchema>;
@@ -1,100 +1,160 @@
 import { z } from "zod";
 
-// Chat Completions Request Schema
-export const ChatMessageSchema = z.object({
-  role: z.enum(["system", "user", "assistant", "function", "tool"]),
-  content: z.string().nullable(),
-  name: z.string().optional(),
-  tool_call_id: z.string().optional(), // Required when role is "tool"
-  function_call: z
+// Chat Message Content Part Schema (multimodal content)
+export const ChatContentPartSchema = z.discriminatedUnion("type", [
+  z
     .object({
-      name: z.string(),
-      arguments: z.string(),
+      type: z.literal("text"),
+      text: z.string(),
     })
-    .optional(),
-  tool_calls: z
-    .array(
-      z.object({
-        id: z.string(),
-        type: z.literal("function"),
-        function: z.object({
-          name: z.string(),
-          arguments: z.string(),
-        }),
-      })
-    )
-    .optional(),
-});
+    .passthrough(),
+  z
+    .object({
+      type: z.literal("image_url"),
+      image_url: z.object({
+        url: z.string(), // http(s) URL or data URL
+        detail: z.enum(["auto", "low", "high"]).optional(),
+      }),
+    })
+    .passthrough(),
+  z
+    .object({
+      type: z.literal("input_audio"),
+      input_audio: z.object({
+        data: z.string(), // base64 encoded audio
+        format: z.string(), // e.g. "wav", "mp3"
+      }),
+    })
+    .passthrough(),
+  z
+    .object({
+      type: z.literal("file"),
+      file: z.object({
+        file_data: z.string().optional(), // data URL
+        file_id: z.string().optional(),
+        filename: z.string().optional(),
+      }),
+    })
+    .passthrough(),
+  z
+    .object({
+      type: z.literal("refusal"),
+      refusal: z.string(),
+    })
+    .passthrough(),
+]);
 
-export const ChatCompletionsRequestSchema = z.object({
-  model: z.string().min(1),
-  messages: z.array(ChatMessageSchema).min(1),
-  temperature: z.number().min(0).max(2).optional(),
-  top_p: z.number().min(0).max(1).optional(),
-  n: z.number().int().positive().optional(),
-  stream: z.boolean().optional(),
-  stop: z.union([z.string(), z.array(z.string())]).optional(),
-  max_tokens: z.number().int().positive().optional(),
-  presence_penalty: z.number().min(-2).max(2).optional(),
-  frequency_penalty: z.number().min(-2).max(2).optional(),
-  logit_bias: z.record(z.string(), z.number()).optional(),
-  user: z.string().optional(),
-  functions: z
-    .array(
-      z.object({
+// Chat Completions Request Schema
+// Unknown fields are preserved (passthrough) so they can be forwarded upstream
+export const ChatMessageSchema = z
+  .object({
+    role: z.enum(["system", "user", "assistant", "function", "tool"]),
+    content: z.union([z.string(), z.array(ChatContentPartSchema)]).nullable(),
+    reasoning_content: z.string().nullable().optional(), // Reasoning/thinking text of reasoning models
+    name: z.string().optional(),
+    tool_call_id: z.string().optional(), // Required when role is "tool"
+    function_call: z
+      .object({
         name: z.string(),
-        description: z.string().optional(),
-        parameters: z.record(z.string(), z.any()).optional(),
+        arguments: z.string(),
       })
-    )
-    .optional(),
-  function_call: z
-    .union([
-      z.literal("none"),
-      z.literal("auto"),
-      z.object({
-        name: z.string(),
-      }),
-    ])
-    .optional(),
-  tools: z
-    .array(
-      z.object({
-        type: z.literal("function"),
-        function: z.object({
+      .optional(),
+    tool_calls: z
+      .array(
+        z.object({
+          id: z.string(),
+          type: z.literal("function"),
+          function: z.object({
+            name: z.string(),
+            arguments: z.string(),
+          }),
+        })
+      )
+      .optional(),
+  })
+  .passthrough();
+
+export const ChatCompletionsRequestSchema = z
+  .object({
+    model: z.string().min(1),
+    messages: z.array(ChatMessageSchema).min(1),
+    temperature: z.number().min(0).max(2).optional(),
+    top_p: z.number().min(0).max(1).optional(),
+    n: z.number().int().positive().optional(),
+    stream: z.boolean().optional(),
+    stream_options: z
+      .object({
+        include_usage: z.boolean().optional(), // Send a final usage chunk
+      })
+      .passthrough()
+      .optional(),
+    stop: z.union([z.string(), z.array(z.string())]).optional(),
+    max_tokens: z.number().int().positive().optional(),
+    presence_penalty: z.number().min(-2).max(2).optional(),
+    frequency_penalty: z.number().min(-2).max(2).optional(),
+    logit_bias: z.record(z.string(), z.number()).optional(),
+    user: z.string().optional(),
+    functions: z
+      .array(
+        z.object({
           name: z.string(),
           description: z.string().optional(),
           parameters: z.record(z.string(), z.any()).optional(),
-        }),
-      })
-    )
-    .optional(),
-  tool_choice: z
-    .union([
-      z.literal("none"),
-      z.literal("auto"),
-      z.object({
-        type: z.literal("function"),
-        function: z.object({
+        })
+      )
+      .optional(),
+    function_call: z
+      .union([
+        z.literal("none"),
+        z.literal("auto"),
+        z.object({
           name: z.string(),
         }),
-      }),
-    ])
-    .optional(),
-});
+      ])
+      .optional(),
+    tools: z
+      .array(
+        z.object({
+          type: z.literal("function"),
+          function: z.object({
+            name: z.string(),
+            description: z.string().optional(),
+            parameters: z.record(z.string(), z.any()).optional(),
+          }),
+        })
+      )
+      .optional(),
+    tool_choice: z
+      .union([
+        z.literal("none"),
+        z.literal("auto"),
+        z.literal("required"),
+        z.object({
+          type: z.literal("function"),
+          function: z.object({
+            name: z.string(),
+          }),
+        }),
+      ])
+      .optional(),
+  })
+  .passthrough();
 
 // Chat Completions Response Schema
-export const ChatChoiceSchema = z.object({
-  index: z.number().int(),
-  message: ChatMessageSchema,
-  finish_reason: z.preprocess((val) => {
-    // Convert to lowercase if it's a string, otherwise return as-is (for null)
-    if (typeof val === "string") {
-      return val.toLowerCase();
-    }
-    return val;
-  }, z.enum(["stop", "length", "function_call", "tool_calls", "content_filter"]).nullable()),
-});
+// Unknown fields (e.g. system_fingerprint, logprobs) are preserved as well
+export const ChatChoiceSchema = z
+  .object({
+    index: z.number().int(),
+    message: ChatMessageSchema,
+    finish_reason: z.preprocess((val) => {
+      // Convert to lowercase if it's a string, otherwise return as-is (for null)
+      if (typeof val === "string") {
+        return val.toLowerCase();
+      }
+      return val;
+    }, z.enum(["stop", "length", "function_call", "tool_calls", "content_filter"]).nullable()),
+  })
+  .passthrough();
 
 export const UsageSchema = z
   .object({
@@ -102,16 +162,70 @@ export const UsageSchema = z
     completion_tokens: z.number().int(),
     total_tokens: z.number().int(),
   })
+  .passthrough()
   .optional();
 
-export const ChatCompletionsResponseSchema = z.object({
-  id: z.string(),
-  object: z.literal("chat.completion"),
-  created: z.number().int(),
-  model: z.string(),
-  choices: z.array(ChatChoiceSchema),
-  usage: UsageSchema,
-});
+export const ChatCompletionsResponseSchema = z
+  .object({
+    id: z.string(),
+    object: z.literal("chat.completion"),
+    created: z.number().int(),
+    model: z.string(),
+    choices: z.array(ChatChoiceSchema),
+    usage: UsageSchema,
+    served_model: z.string().optional(), // ModelAlias that answered, set by fallback chains
+  })
+  .passthrough();
+
+// Chat Completion Chunk Schema (streaming response)
+export const ChatCompletionChunkSchema = z
+  .object({
+    id: z.string(),
+    object: z.string().optional(), // "chat.completion.chunk"
+    created: z.number().int(),
+    model: z.string(),
+    system_fingerprint: z.string().nullable().optional(),
+    choices: z
+      .array(
+        z
+          .object({
+            index: z.number().int(),
+            delta: z
+              .object({
+                role: ChatMessageSchema.shape.role.optional(),
+                content: z.string().nullable().optional(),
+                reasoning_content: z.string().nullable().optional(),
+                function_call: z
+                  .object({
+                    name: z.string().optional(),
+                    arguments: z.string().optional(),
+                  })
+                  .optional(),
+                tool_calls: z
+                  .array(
+                    z.object({
+                      index: z.number().int(),
+                      id: z.string().optional(),
+                      type: z.literal("function").optional(),
+                      function: z
+                        .object({
+                          name: z.string().optional(),
+                          arguments: z.string().optional(),
+                        })
+                        .optional(),
+                    })
+                  )
+                  .optional(),
+              })
+              .passthrough(),
+            finish_reason: z.string().nullable().optional(),
+          })
+          .passthrough()
+      )
+      .default([]),
+    usage: UsageSchema.nullable(),
+  })
+  .passthrough();
 
 // Models Response Schema
 export const ModelSchema = z.object({
@@ -157,6 +271,7 @@ export const OpenAIErrorSchema = z.object({
 });
 
 // Type exports for TypeScript
+export type ChatContentPart = z.infer<typeof ChatContentPartSchema>;
 export type ChatMessage = z.infer<typeof ChatMessageSchema>;
 export type ChatCompletionsRequest = z.infer<
   typeof ChatCompletionsRequestSchema
@@ -164,5 +279,6 @@ export type ChatCompletionsRequest = z.infer<
 export type ChatCompletionsResponse = z.infer<
   typeof ChatCompletionsResponseSchema
 >;
+export type ChatCompletionChunk = z.infer<typeof ChatCompletionChunkSchema>;
 export type ModelsListResponse = z.infer<typeof ModelsListResponseSchema>;
 export type Model = z.infer<typeof ModelSchema>;
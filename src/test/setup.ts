@@ -0,0 +1,61 @@
+import { setConfig, type Config } from "../config";
+import { ConfigSchema } from "../config/schema";
+import "../providers/impl";
+import { ProviderManager } from "../providers/manager";
+import type { ChatCompletionsRequest } from "../schemas/openai";
+
+/**
+ * Test helpers
+ *
+ * Tests share the global configuration and the ProviderManager, so every
+ * test file configures the providers it needs with configure().
+ */
+
+// Providers created by configure(), destroyed by the next call
+const providerNames = new Set<string>();
+
+/**
+ * Set the global configuration and (re)initialize its providers
+ * Logging defaults to errors only, app.keys to ["sk-test"].
+ * @param config Raw configuration, as parsed from config.toml
+ * @returns Parsed configuration
+ */
+export async function configure(
+  config: Record<string, unknown> = {}
+): Promise<Config> {
+  for (const name of providerNames) {
+    await ProviderManager.destroyProvider(name);
+  }
+  providerNames.clear();
+
+  const parsed = ConfigSchema.parse({
+    app: { keys: ["sk-test"] },
+    logging: { level: "error" },
+    ...config,
+  });
+  setConfig(parsed);
+  const { err } = await ProviderManager.initializeProviders(parsed.providers);
+  for (const name of Object.keys(parsed.providers ?? {})) {
+    providerNames.add(name);
+  }
+  if (err) {
+    throw err;
+  }
+  return parsed;
+}
+
+/**
+ * Retry policy settings without backoff delays
+ */
+export const fastRetry = { baseDelay: 1, maxDelay: 1, jitter: 0 };
+
+/**
+ * Build a single-message chat completion request
+ */
+export function chatRequest(
+  model: string,
+  content = "Hello",
+  fields: Partial<ChatCompletionsRequest> = {}
+): ChatCompletionsRequest {
+  return { model, messages: [{ role: "user", content }], ...fields };
+}
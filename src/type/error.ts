@@ -0,0 +1,49 @@
+/**
+ * Error of an upstream request
+ * Carries the details the retry policy classifies errors by
+ */
+export class UpstreamError extends Error {
+  // HTTP status code (undefined for network errors)
+  readonly status?: number;
+  // Upstream error code/type, or the network error code (e.g. ECONNRESET)
+  readonly code?: string;
+  // Delay requested by the Retry-After header, in milliseconds
+  readonly retryAfter?: number;
+
+  constructor(
+    message: string,
+    options: { status?: number; code?: string; retryAfter?: number } = {}
+  ) {
+    super(message);
+    this.name = "UpstreamError";
+    this.status = options.status;
+    this.code = options.code;
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+/**
+ * Error of a request that kept failing with retryable errors until the
+ * retries were used up (the last error is the cause)
+ */
+export class RetryExhaustedError extends Error {
+  constructor(message: string, options: { cause?: Error | null } = {}) {
+    super(message, { cause: options.cause });
+    this.name = "RetryExhaustedError";
+  }
+}
+
+/**
+ * Error of a request rejected without contacting the upstream because the
+ * circuit breaker of the provider (or model) is open
+ */
+export class CircuitOpenError extends UpstreamError {
+  constructor(message: string, options: { retryAfter?: number } = {}) {
+    super(message, {
+      status: 503,
+      code: "circuit_open",
+      retryAfter: options.retryAfter,
+    });
+    this.name = "CircuitOpenError";
+  }
+}
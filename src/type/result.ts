@@ -10,7 +10,11 @@ export type Result<T> = {
 
 export function Result<T>(data: T): Result<T>;
 export function Result<T>(err: Error): Result<T>;
-export function Result<T>(data?: T, err?: Error | null): Result<T> {
+export function Result<T>(data?: T | Error, err?: Error | null): Result<T> {
+  // Result(err) overload: the single argument is the error, not the data
+  if (data instanceof Error) {
+    return createResult<T>(null, data);
+  }
   return createResult<T>(data ?? null, err ?? null);
 }
 
@@ -37,3 +37,18 @@ export function spoofRequestContent(
     ],
   };
 }
+
+/**
+ * Parse tool call arguments (a JSON string) into an object
+ * Upstreams with native tool calling expect an object, so invalid JSON falls back to {}
+ * @param args Tool call arguments JSON string
+ * @returns Parsed arguments object
+ */
+export function parseToolArguments(args: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(args);
+    return typeof parsed === "object" && parsed !== null ? parsed : {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,80 @@
+import { afterAll, afterEach, describe, expect, spyOn, test } from "bun:test";
+import axios from "axios";
+import type { ChatCompletionsRequest } from "../schemas/openai";
+import { inlineRemoteImages } from "./content";
+
+// Image server on every local address, counting the downloads it served
+let downloads = 0;
+const server = Bun.serve({
+  port: 0,
+  hostname: "::",
+  fetch() {
+    downloads++;
+    return new Response(new Uint8Array([0x89, 0x50, 0x4e, 0x47]), {
+      headers: { "Content-Type": "image/png" },
+    });
+  },
+});
+
+const get = spyOn(axios, "get");
+
+afterEach(() => {
+  downloads = 0;
+  get.mockClear();
+});
+
+afterAll(() => {
+  get.mockRestore();
+  server.stop(true);
+});
+
+function imageRequest(url: string): ChatCompletionsRequest {
+  return {
+    model: "test/model",
+    messages: [
+      {
+        role: "user",
+        content: [{ type: "image_url", image_url: { url } }],
+      },
+    ],
+  };
+}
+
+async function inlinedUrl(url: string): Promise<string> {
+  const request = await inlineRemoteImages(imageRequest(url));
+  const [part] = request.messages[0]!.content as {
+    image_url: { url: string };
+  }[];
+  return part!.image_url.url;
+}
+
+describe("inlineRemoteImages", () => {
+  test.each([
+    "127.0.0.1",
+    "0.0.0.0",
+    "10.1.2.3",
+    "169.254.169.254",
+    "198.18.0.1",
+    "[::1]",
+    "[::]",
+    "[::127.0.0.1]",
+    "[::ffff:127.0.0.1]",
+    "[::ffff:7f00:1]",
+    "[::ffff:169.254.169.254]",
+    "[64:ff9b::a9fe:a9fe]",
+    "[fd00::1]",
+    "[fe80::1]",
+  ])("rejects the internal address %s", async (host) => {
+    const url = `http://${host}:${server.port}/image.png`;
+    expect(await inlinedUrl(url)).toBe(url);
+    expect(get).not.toHaveBeenCalled();
+    expect(downloads).toBe(0);
+  });
+
+  test("rejects host names resolving to an internal address", async () => {
+    const url = `http://localhost:${server.port}/image.png`;
+    expect(await inlinedUrl(url)).toBe(url);
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(downloads).toBe(0);
+  });
+});
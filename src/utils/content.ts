@@ -0,0 +1,270 @@
+import axios, { type LookupAddress } from "axios";
+import { lookup as dnsLookup } from "node:dns";
+import { BlockList, isIP } from "node:net";
+import { logger } from "../logger";
+import type {
+  ChatCompletionsRequest,
+  ChatContentPart,
+  ChatMessage,
+} from "../schemas/openai";
+import { timeoutSignal } from "./signal";
+
+// Limits of images downloaded for inlining
+const MAX_IMAGE_SIZE = 20 * 1024 * 1024; // bytes
+const MAX_IMAGE_REDIRECTS = 3;
+
+// Addresses images are never downloaded from, so clients cannot reach
+// internal services through the server: unspecified, loopback, private,
+// carrier-grade NAT, link-local, benchmarking and unique local ranges, and
+// IPv6 forms embedding an IPv4 address (IPv4-compatible, IPv4-mapped, NAT64)
+const internalAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+] as const) {
+  internalAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 96],
+  ["::ffff:0:0", 96],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+] as const) {
+  internalAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+// Inlined messages by the original messages array. Retries, hedges and
+// fallbacks of a request share the array, so its images are downloaded once.
+const inlinedMessages = new WeakMap<
+  ChatMessage[],
+  { messages: Promise<ChatMessage[]>; signal?: AbortSignal }
+>();
+
+/**
+ * Flatten message content into plain text
+ * Text (and refusal) parts are joined, non-text parts are dropped
+ * @param content Message content (string, content-part array or null)
+ * @returns Plain text content
+ */
+export function contentToText(content: ChatMessage["content"]): string {
+  if (content === null || typeof content === "string") {
+    return content ?? "";
+  }
+  return content
+    .map((part) =>
+      part.type === "text"
+        ? part.text
+        : part.type === "refusal"
+          ? part.refusal
+          : ""
+    )
+    .join("");
+}
+
+/**
+ * Normalize message content into a content-part array
+ * @param content Message content (string, content-part array or null)
+ * @returns Content parts, an empty string yields no parts
+ */
+export function contentToParts(
+  content: ChatMessage["content"]
+): ChatContentPart[] {
+  if (content === null || content === "") {
+    return [];
+  }
+  if (typeof content === "string") {
+    return [{ type: "text", text: content }];
+  }
+  return content;
+}
+
+/**
+ * Parse a base64 data URL (`data:<mime>;base64,<data>`)
+ * @param url URL to parse
+ * @returns MIME type and base64 data, or null if it is not a base64 data URL
+ */
+export function parseDataUrl(
+  url: string
+): { mimeType: string; data: string } | null {
+  const match = /^data:([^;,]+)?(?:;[^;,]+)*;base64,(.*)$/s.exec(url);
+  if (!match) {
+    return null;
+  }
+  return {
+    mimeType: match[1] ?? "application/octet-stream",
+    data: match[2]!,
+  };
+}
+
+/**
+ * Download remote image_url parts and inline them as base64 data URLs
+ * For upstreams that only accept data URLs. Images that fail to download
+ * are left untouched so the upstream reports the error.
+ * The result is reused by later calls with the same messages (retries of
+ * the request), unless the downloads were cancelled by another signal.
+ * @param request ChatCompletionsRequest
+ * @param signal Optional abort signal, cancels pending downloads
+ * @returns ChatCompletionsRequest with remote images inlined
+ */
+export async function inlineRemoteImages(
+  request: ChatCompletionsRequest,
+  signal?: AbortSignal
+): Promise<ChatCompletionsRequest> {
+  let cached = inlinedMessages.get(request.messages);
+  if (!cached || (cached.signal?.aborted && !signal?.aborted)) {
+    cached = { messages: inlineMessages(request.messages, signal), signal };
+    inlinedMessages.set(request.messages, cached);
+  }
+  const messages = await cached.messages;
+  // Cancelled with another request (e.g. a hedge that lost) while waiting
+  if (cached.signal?.aborted && !signal?.aborted) {
+    return inlineRemoteImages(request, signal);
+  }
+  return { ...request, messages };
+}
+
+async function inlineMessages(
+  messages: ChatMessage[],
+  signal?: AbortSignal
+): Promise<ChatMessage[]> {
+  // Same URL may appear several times in a conversation
+  const downloads = new Map<string, Promise<string | null>>();
+  const download = (url: string) => {
+    let pending = downloads.get(url);
+    if (!pending) {
+      pending = downloadAsDataUrl(url, signal);
+      downloads.set(url, pending);
+    }
+    return pending;
+  };
+
+  const inlined = await Promise.all(
+    messages.map(async (message) => {
+      if (!Array.isArray(message.content)) {
+        return message;
+      }
+      const content = await Promise.all(
+        message.content.map(async (part) => {
+          if (
+            part.type !== "image_url" ||
+            !/^https?:\/\//i.test(part.image_url.url)
+          ) {
+            return part;
+          }
+          const url = await download(part.image_url.url);
+          return url
+            ? { ...part, image_url: { ...part.image_url, url } }
+            : part;
+        })
+      );
+      return { ...message, content };
+    })
+  );
+
+  if (downloads.size > 0) {
+    logger.debug("Inlined remote images", { count: downloads.size });
+  }
+  return inlined;
+}
+
+/**
+ * Download an image as a data URL
+ * Only image/* responses up to MAX_IMAGE_SIZE are accepted, and neither the
+ * URL nor its redirects may point to an internal address.
+ * @returns Data URL, or null if the download failed or was rejected
+ */
+async function downloadAsDataUrl(
+  url: string,
+  signal?: AbortSignal
+): Promise<string | null> {
+  try {
+    checkPublicHost(new URL(url).hostname);
+    const response = await axios.get<ArrayBuffer>(url, {
+      responseType: "arraybuffer",
+      maxContentLength: MAX_IMAGE_SIZE,
+      maxRedirects: MAX_IMAGE_REDIRECTS,
+      beforeRedirect: (options) => checkPublicHost(String(options.hostname)),
+      lookup: publicLookup,
+      signal: timeoutSignal(30000, signal),
+    });
+    const mimeType = String(response.headers["content-type"] ?? "")
+      .split(";")[0]!
+      .trim()
+      .toLowerCase();
+    if (!mimeType.startsWith("image/")) {
+      throw new Error(
+        `Unexpected content type "${mimeType || "none"}", expected an image`
+      );
+    }
+    const data = Buffer.from(response.data).toString("base64");
+    return `data:${mimeType};base64,${data}`;
+  } catch (error) {
+    logger.warn("Failed to download image for inlining", {
+      url,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Reject IP address hosts in an internal range
+ * Host names are checked once resolved, see publicLookup
+ */
+function checkPublicHost(hostname: string): void {
+  const address = hostname.replace(/^\[(.*)\]$/, "$1");
+  if (isInternalAddress(address)) {
+    throw new Error(`Host ${hostname} is an internal address`);
+  }
+}
+
+/**
+ * DNS lookup of image downloads, failing for host names that resolve to an
+ * internal address
+ */
+function publicLookup(
+  hostname: string,
+  options: object,
+  callback: (err: Error | null, address: LookupAddress[]) => void
+): void {
+  dnsLookup(hostname, { all: true }, (err, addresses) => {
+    if (err) {
+      callback(err, []);
+      return;
+    }
+    const internal = addresses.find(({ address }) =>
+      isInternalAddress(address)
+    );
+    if (internal) {
+      callback(
+        new Error(
+          `Host ${hostname} resolves to internal address ${internal.address}`
+        ),
+        []
+      );
+      return;
+    }
+    callback(
+      null,
+      addresses.map(({ address, family }) => ({
+        address,
+        family: family === 6 ? 6 : 4,
+      }))
+    );
+  });
+}
+
+function isInternalAddress(address: string): boolean {
+  const family = isIP(address);
+  return (
+    family !== 0 &&
+    internalAddresses.check(address, family === 6 ? "ipv6" : "ipv4")
+  );
+}
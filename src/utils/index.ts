@@ -1,3 +1,10 @@
 export * from "./completion";
 export * from "./filter";
 export * from "./time";
+export * from "./content";
+export * from "./reasoning";
+export * from "./typing";
+export * from "./stream";
+export * from "./signal";
+export * from "./retry";
+export * from "./validator";
@@ -0,0 +1,79 @@
+import type { ChatCompletionsResponse } from "../schemas/openai";
+
+const THINK_OPEN_TAG = "<think>";
+const THINK_CLOSE_TAG = "</think>";
+// An unclosed tag (e.g. truncated by max_tokens) runs to the end of the content
+const THINK_TAG_PATTERN = /<think>([\s\S]*?)(?:<\/think>|$)/g;
+
+/**
+ * Split `<think>`-tagged text out of message content
+ * Also handles content without the opening tag, which some chat templates
+ * put into the prompt so only `</think>` shows up in the output.
+ * @param content Message content
+ * @returns Content without thinking text, and the extracted thinking text
+ */
+export function splitThinkTags(content: string): {
+  content: string;
+  reasoning: string[];
+} {
+  const reasoning: string[] = [];
+  let text = content;
+
+  const openIndex = text.indexOf(THINK_OPEN_TAG);
+  const closeIndex = text.indexOf(THINK_CLOSE_TAG);
+  if (closeIndex !== -1 && (openIndex === -1 || closeIndex < openIndex)) {
+    reasoning.push(text.slice(0, closeIndex));
+    text = text.slice(closeIndex + THINK_CLOSE_TAG.length);
+  }
+
+  text = text.replace(THINK_TAG_PATTERN, (_, thinking: string) => {
+    reasoning.push(thinking);
+    return "";
+  });
+
+  return {
+    content: text.trimStart(),
+    reasoning: reasoning.map((item) => item.trim()).filter(Boolean),
+  };
+}
+
+/**
+ * Apply the `<think>` tag rule to every choice of a response
+ * - extract: tagged text is moved into reasoning_content
+ * - strip: tagged text is removed
+ * Only string content is processed.
+ * @param response ChatCompletionsResponse
+ * @param mode Think tag rule
+ * @returns ChatCompletionsResponse with think tags processed
+ */
+export function applyThinkTags(
+  response: ChatCompletionsResponse,
+  mode: "extract" | "strip"
+): ChatCompletionsResponse {
+  return {
+    ...response,
+    choices: response.choices.map((choice) => {
+      const { message } = choice;
+      if (
+        typeof message.content !== "string" ||
+        !/<\/?think>/.test(message.content)
+      ) {
+        return choice;
+      }
+
+      const { content, reasoning } = splitThinkTags(message.content);
+      const reasoningContent =
+        mode === "extract"
+          ? [message.reasoning_content, ...reasoning].filter(Boolean).join("\n")
+          : message.reasoning_content;
+      return {
+        ...choice,
+        message: {
+          ...message,
+          content,
+          ...(reasoningContent ? { reasoning_content: reasoningContent } : {}),
+        },
+      };
+    }),
+  };
+}
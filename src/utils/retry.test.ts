@@ -0,0 +1,78 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import axios from "axios";
+import { RetryConfigSchema, type RetryPolicy } from "../config/schema";
+import { UpstreamError } from "../type/error";
+import {
+  isKeyRotation,
+  isRetryableError,
+  isUpstreamFailure,
+  retryDelay,
+  upstreamError,
+} from "./retry";
+import { timeoutSignal } from "./signal";
+
+const { models, ...defaults } = RetryConfigSchema.parse({});
+const policy: RetryPolicy = { ...defaults, maxRetries: 3 };
+
+// Upstream that answers after a second
+const upstream = Bun.serve({
+  port: 0,
+  async fetch() {
+    await Bun.sleep(1000);
+    return Response.json({ ok: true });
+  },
+});
+
+afterAll(() => upstream.stop(true));
+
+async function request(signal: AbortSignal): Promise<UpstreamError | null> {
+  try {
+    await axios.get(upstream.url.href, { signal });
+    return null;
+  } catch (error) {
+    if (!axios.isAxiosError(error)) {
+      throw error;
+    }
+    return upstreamError(`Upstream error: ${error.message}`, error);
+  }
+}
+
+// The retry loop itself is covered by the autoRetryCompletion tests
+describe("upstream timeouts", () => {
+  test("a timed out request is a retryable upstream failure", async () => {
+    const err = await request(timeoutSignal(100));
+    expect(err?.code).toBe("ETIMEDOUT");
+    expect(isRetryableError(err!, policy)).toBe(true);
+    expect(isUpstreamFailure(err!)).toBe(true);
+  });
+
+  test("a request aborted by the client is not retried", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+    const err = await request(timeoutSignal(5000, controller.signal));
+    expect(err?.code).toBe("ERR_CANCELED");
+    expect(isRetryableError(err!, policy)).toBe(false);
+    expect(isUpstreamFailure(err!)).toBe(false);
+  });
+});
+
+describe("upstream failures", () => {
+  test("a rotated API key does not count against the upstream", () => {
+    const err = new UpstreamError("429 (trying another API key)", {
+      code: "api_key_rotated",
+    });
+    expect(isUpstreamFailure(err)).toBe(false);
+    expect(isRetryableError(err, policy)).toBe(true);
+  });
+
+  test("a rotated API key is retried without a delay", () => {
+    const err = new UpstreamError("429 (trying another API key)", {
+      code: "api_key_rotated",
+    });
+    expect(isKeyRotation(err)).toBe(true);
+    expect(retryDelay(3, policy, err)).toBe(0);
+    expect(isKeyRotation(new UpstreamError("429", { status: 429 }))).toBe(
+      false
+    );
+  });
+});
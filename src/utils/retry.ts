@@ -0,0 +1,216 @@
+import type { AxiosError } from "axios";
+import type { RetryPolicy } from "../config/schema";
+import {
+  CircuitOpenError,
+  RetryExhaustedError,
+  UpstreamError,
+} from "../type/error";
+
+/**
+ * Create an UpstreamError from a failed axios request
+ * The error code is taken from the error body (code, status or type of the
+ * error object), falling back to the network error code.
+ * @param message Error message
+ * @param error Axios error
+ * @param body Error body, if it was read separately (e.g. streaming requests)
+ * @returns UpstreamError with status, code and Retry-After delay
+ */
+export function upstreamError(
+  message: string,
+  error: AxiosError,
+  body: unknown = error.response?.data
+): UpstreamError {
+  const headers = error.response?.headers ?? {};
+  return new UpstreamError(message, {
+    status: error.response?.status,
+    code: errorBodyCode(body) ?? networkErrorCode(error),
+    retryAfter:
+      parseRetryAfter(headers["retry-after-ms"], 1) ??
+      parseRetryAfter(headers["retry-after"], 1000),
+  });
+}
+
+/**
+ * Parse a Retry-After header value (delay or HTTP date)
+ * @param value Header value
+ * @param unit Milliseconds per unit of a numeric value
+ * @returns Delay in milliseconds, or undefined if absent or malformed
+ */
+export function parseRetryAfter(
+  value: unknown,
+  unit: number
+): number | undefined {
+  if (typeof value !== "string" || value.trim() === "") {
+    return undefined;
+  }
+  const delay = Number(value);
+  if (Number.isFinite(delay)) {
+    return Math.max(0, delay * unit);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Classify an error as retryable or fatal
+ * 1. fatalCodes / retryCodes match the error code (upstream or network)
+ * 2. otherwise errors with an HTTP status are retryable if it is in retryStatuses
+ * 3. errors without status (network errors, invalid or empty responses) are retryable
+ * Aborted requests (ERR_CANCELED, the caller aborted; timeouts are
+ * ETIMEDOUT), requests rejected by an open circuit breaker and Retry-After
+ * delays longer than maxRetryAfter are never retried.
+ */
+export function isRetryableError(error: Error, policy: RetryPolicy): boolean {
+  if (!(error instanceof UpstreamError)) {
+    return true;
+  }
+  if (isCancellation(error) || error instanceof CircuitOpenError) {
+    return false;
+  }
+  if (
+    error.retryAfter !== undefined &&
+    error.retryAfter > policy.maxRetryAfter
+  ) {
+    return false;
+  }
+  if (error.code && policy.fatalCodes.includes(error.code)) {
+    return false;
+  }
+  if (error.code && policy.retryCodes.includes(error.code)) {
+    return true;
+  }
+  if (error.status !== undefined) {
+    return policy.retryStatuses.includes(error.status);
+  }
+  return true;
+}
+
+/**
+ * Check if an error counts against the health of an upstream
+ * Aborted requests, requests rejected by a circuit breaker, client errors
+ * (invalid requests, not the upstream's fault) and API keys taken out of a
+ * key pool while others are left are ignored; rate limits and timeouts count.
+ */
+export function isUpstreamFailure(error: Error): boolean {
+  if (!(error instanceof UpstreamError)) {
+    return true;
+  }
+  // Aborted, or rejected by an open circuit without contacting the upstream
+  if (isCancellation(error) || error instanceof CircuitOpenError) {
+    return false;
+  }
+  // The key was rate limited or rejected, the provider itself is healthy
+  if (isKeyRotation(error)) {
+    return false;
+  }
+  const { status } = error;
+  return (
+    status === undefined || status >= 500 || status === 408 || status === 429
+  );
+}
+
+/**
+ * Check if an error is a cancelled request (ERR_CANCELED): the client
+ * disconnected, or a hedged request lost. Not a failure of the upstream.
+ */
+export function isCancellation(error: Error): boolean {
+  return error instanceof UpstreamError && error.code === "ERR_CANCELED";
+}
+
+/**
+ * Classify the final error of a model for fallback chains
+ * - retryable: the model is temporarily unavailable, its retries were used
+ *   up or its circuit breaker is open (not retried on the same model, the
+ *   circuit fails fast)
+ * - fatal: any other error, e.g. an invalid request
+ */
+export function failureClass(error: Error): "retryable" | "fatal" {
+  return error instanceof RetryExhaustedError ||
+    error instanceof CircuitOpenError
+    ? "retryable"
+    : "fatal";
+}
+
+/**
+ * Check if an error took an API key out of a key pool while others are left
+ * (see KeyPool.reportFailure). The request is retried with the next key
+ * without a delay, and the retry does not use up an attempt.
+ */
+export function isKeyRotation(error: Error): boolean {
+  return error instanceof UpstreamError && error.code === "api_key_rotated";
+}
+
+/**
+ * Compute the delay before a retry
+ * Exponential backoff (baseDelay * multiplier^(attempt - 1), capped at
+ * maxDelay) with +/- jitter. A Retry-After delay of the error is used
+ * instead if it is longer. Key rotations are retried right away.
+ * @param attempt Number of the failed attempt (1-based)
+ * @param policy Retry policy
+ * @param error Error of the failed attempt
+ * @returns Delay in milliseconds
+ */
+export function retryDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  error?: Error
+): number {
+  if (error && isKeyRotation(error)) {
+    return 0;
+  }
+  const backoff = Math.min(
+    policy.maxDelay,
+    policy.baseDelay * policy.multiplier ** (attempt - 1)
+  );
+  const delay = backoff * (1 + policy.jitter * (2 * Math.random() - 1));
+  const retryAfter =
+    error instanceof UpstreamError ? (error.retryAfter ?? 0) : 0;
+  return Math.round(Math.max(delay, retryAfter));
+}
+
+/**
+ * Network error code of an axios error
+ * axios reports requests cancelled by their signal as ERR_CANCELED, whether
+ * the caller aborted them (client disconnect) or the timeout of
+ * timeoutSignal() fired. Timeouts get ETIMEDOUT instead, so they are retried
+ * and count as upstream failures like other network errors.
+ */
+function networkErrorCode(error: AxiosError): string | undefined {
+  const signal = error.config?.signal as AbortSignal | undefined;
+  if (
+    error.code === "ERR_CANCELED" &&
+    (signal?.reason as { name?: string } | undefined)?.name === "TimeoutError"
+  ) {
+    return "ETIMEDOUT";
+  }
+  return error.code;
+}
+
+/**
+ * Extract the error code of an error body
+ * Handles OpenAI ({error: {code, type}}), Google ({error: {status}}) and
+ * Anthropic ({error: {type}}) formats, JSON strings are parsed first.
+ */
+function errorBodyCode(body: unknown): string | undefined {
+  if (typeof body === "string") {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      return undefined;
+    }
+  }
+  if (typeof body !== "object" || body === null || !("error" in body)) {
+    return undefined;
+  }
+  const error = body.error;
+  if (typeof error !== "object" || error === null) {
+    return undefined;
+  }
+  for (const key of ["code", "status", "type"] as const) {
+    const value = (error as Record<string, unknown>)[key];
+    if (typeof value === "string" && value) {
+      return value;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,34 @@
+/**
+ * Create an AbortSignal that aborts after a timeout or when the given signal aborts
+ * Used for upstream requests so a client disconnect cancels them as well
+ * @param ms Timeout in milliseconds
+ * @param signal Optional signal to follow (e.g. the client request)
+ * @returns Combined abort signal
+ */
+export function timeoutSignal(ms: number, signal?: AbortSignal): AbortSignal {
+  const timeout = AbortSignal.timeout(ms);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+/**
+ * Wait for a delay, resolves early when the signal aborts
+ * @param ms Delay in milliseconds
+ * @param signal Optional abort signal
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,270 @@
+import { logger } from "../logger";
+import {
+  ChatCompletionChunkSchema,
+  type ChatCompletionChunk,
+  type ChatMessage,
+} from "../schemas/openai";
+
+type ToolCall = NonNullable<ChatMessage["tool_calls"]>[number];
+
+/**
+ * Extract the data payloads of a Server-Sent Events body
+ * Multi-line data fields are joined with "\n", the [DONE] marker is dropped
+ * @param body Raw SSE body
+ * @returns Data payloads in order
+ */
+export function parseSSEData(body: string): string[] {
+  const payloads: string[] = [];
+  for (const event of body.split(/\r?\n\r?\n/)) {
+    const data = event
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).replace(/^ /, ""))
+      .join("\n");
+    if (data && data !== "[DONE]") {
+      payloads.push(data);
+    }
+  }
+  return payloads;
+}
+
+/**
+ * Incrementally read the data payloads of a Server-Sent Events stream
+ * @param stream Byte (or text) stream of an SSE response
+ * @returns Data payloads as they arrive, the [DONE] marker is dropped
+ */
+export async function* readSSEData(
+  stream: AsyncIterable<Uint8Array | string>
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for await (const chunk of stream) {
+    buffer +=
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+    let boundary: RegExpExecArray | null;
+    while ((boundary = /\r?\n\r?\n/.exec(buffer))) {
+      yield* parseSSEData(buffer.slice(0, boundary.index));
+      buffer = buffer.slice(boundary.index + boundary[0].length);
+    }
+  }
+  yield* parseSSEData(buffer + decoder.decode());
+}
+
+/**
+ * Incrementally read the chunks of a streaming chat completion
+ * Invalid chunks are skipped, an error event throws
+ * @param stream Byte (or text) stream of an SSE response
+ * @returns Validated chunks as they arrive
+ */
+export async function* readChatCompletionChunks(
+  stream: AsyncIterable<Uint8Array | string>
+): AsyncGenerator<ChatCompletionChunk> {
+  for await (const payload of readSSEData(stream)) {
+    const parsed = parseChatCompletionChunk(payload);
+    if (parsed && "error" in parsed) {
+      const error = parsed.error.error;
+      throw new Error(
+        `Upstream stream error: ${
+          typeof error === "object" && error !== null && "message" in error
+            ? String(error.message)
+            : JSON.stringify(error)
+        }`
+      );
+    }
+    if (parsed) {
+      yield parsed.chunk;
+    }
+  }
+}
+
+/**
+ * Read a whole byte (or text) stream into a string
+ * Used for error bodies of streaming requests
+ * @param stream Byte (or text) stream
+ * @returns Stream content
+ */
+export async function readStreamText(
+  stream: AsyncIterable<Uint8Array | string>
+): Promise<string> {
+  const decoder = new TextDecoder();
+  let text = "";
+  for await (const chunk of stream) {
+    text +=
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+/**
+ * Check whether a value is an async iterable (e.g. a response body stream)
+ */
+export function isAsyncIterable(
+  value: unknown
+): value is AsyncIterable<Uint8Array | string> {
+  return (
+    typeof value === "object" && value !== null && Symbol.asyncIterator in value
+  );
+}
+
+/**
+ * Parse and validate one data payload of a streaming chat completion
+ * @returns The chunk, the error body for error events, or null for invalid payloads
+ */
+function parseChatCompletionChunk(
+  payload: string
+): { chunk: ChatCompletionChunk } | { error: { error: unknown } } | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(payload);
+  } catch {
+    logger.warn("Skipping unparsable stream chunk", { payload });
+    return null;
+  }
+  if (typeof data === "object" && data !== null && "error" in data) {
+    return { error: data as { error: unknown } };
+  }
+  const chunkCheck = ChatCompletionChunkSchema.safeParse(data);
+  if (!chunkCheck.success) {
+    logger.warn("Skipping invalid stream chunk", {
+      errors: chunkCheck.error.issues,
+      payload,
+    });
+    return null;
+  }
+  return { chunk: chunkCheck.data };
+}
+
+/**
+ * Reassemble a streamed chat completion into a single (non-stream) response
+ * - content, reasoning_content and tool call argument fragments are concatenated
+ * - the last finish_reason and usage of each choice win
+ *
+ * The result is not validated, callers run it through their usual response
+ * validation. If the body is plain JSON (the upstream did not stream) it is
+ * returned as-is, and an error event is returned as the error body.
+ * @param body Raw SSE body of a streaming chat completion
+ * @returns Response body as the non-stream endpoint would have returned it
+ */
+export function aggregateChatCompletionStream(body: string): unknown {
+  const payloads = parseSSEData(body);
+  if (payloads.length === 0) {
+    try {
+      return JSON.parse(body);
+    } catch {
+      return body;
+    }
+  }
+
+  const chunks: ChatCompletionChunk[] = [];
+  for (const payload of payloads) {
+    const parsed = parseChatCompletionChunk(payload);
+    if (parsed && "error" in parsed) {
+      return parsed.error;
+    }
+    if (parsed) {
+      chunks.push(parsed.chunk);
+    }
+  }
+
+  const first = chunks[0];
+  if (!first) {
+    return body;
+  }
+
+  const choices = new Map<
+    number,
+    {
+      role: ChatMessage["role"];
+      content: string[];
+      reasoning: string[];
+      toolCalls: Map<number, ToolCall>;
+      functionCall?: { name: string; arguments: string };
+      finishReason: string | null;
+    }
+  >();
+  let usage: ChatCompletionChunk["usage"];
+  let systemFingerprint = first.system_fingerprint;
+
+  for (const chunk of chunks) {
+    usage = chunk.usage ?? usage;
+    systemFingerprint = chunk.system_fingerprint ?? systemFingerprint;
+
+    for (const { index, delta, finish_reason } of chunk.choices) {
+      let choice = choices.get(index);
+      if (!choice) {
+        choice = {
+          role: "assistant",
+          content: [],
+          reasoning: [],
+          toolCalls: new Map(),
+          finishReason: null,
+        };
+        choices.set(index, choice);
+      }
+
+      if (delta.role) {
+        choice.role = delta.role;
+      }
+      if (delta.content) {
+        choice.content.push(delta.content);
+      }
+      if (delta.reasoning_content) {
+        choice.reasoning.push(delta.reasoning_content);
+      }
+      for (const toolCallDelta of delta.tool_calls ?? []) {
+        const toolCall = choice.toolCalls.get(toolCallDelta.index) ?? {
+          id: "",
+          type: "function" as const,
+          function: { name: "", arguments: "" },
+        };
+        if (toolCallDelta.id) {
+          toolCall.id = toolCallDelta.id;
+        }
+        toolCall.function.name += toolCallDelta.function?.name ?? "";
+        toolCall.function.arguments += toolCallDelta.function?.arguments ?? "";
+        choice.toolCalls.set(toolCallDelta.index, toolCall);
+      }
+      if (delta.function_call) {
+        choice.functionCall ??= { name: "", arguments: "" };
+        choice.functionCall.name += delta.function_call.name ?? "";
+        choice.functionCall.arguments += delta.function_call.arguments ?? "";
+      }
+      if (finish_reason) {
+        choice.finishReason = finish_reason;
+      }
+    }
+  }
+
+  return {
+    id: first.id,
+    object: "chat.completion",
+    created: first.created,
+    model: first.model,
+    system_fingerprint: systemFingerprint ?? undefined,
+    choices: Array.from(choices.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([index, choice]) => {
+        const message: ChatMessage = {
+          role: choice.role,
+          content: choice.content.length > 0 ? choice.content.join("") : null,
+        };
+        if (choice.reasoning.length > 0) {
+          message.reasoning_content = choice.reasoning.join("");
+        }
+        if (choice.toolCalls.size > 0) {
+          message.tool_calls = Array.from(choice.toolCalls.entries())
+            .sort(([a], [b]) => a - b)
+            .map(([, toolCall]) => toolCall);
+        }
+        if (choice.functionCall) {
+          message.function_call = choice.functionCall;
+        }
+        return { index, message, finish_reason: choice.finishReason };
+      }),
+    usage: usage ?? undefined,
+  };
+}
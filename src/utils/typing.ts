@@ -0,0 +1,44 @@
+import type { TypingOptions } from "../config/schema";
+
+/**
+ * Split content into chunks for simulated typing
+ * - word: one word per chunk, trailing spaces/punctuation stay with the word
+ * - sentence: one sentence per chunk
+ * - chars: chunkSize characters (code points) per chunk
+ * Word and sentence boundaries come from Intl.Segmenter, so text without
+ * spaces (e.g. Chinese, Japanese) is split as well.
+ * @param text Content to split
+ * @param split Split mode
+ * @param chunkSize Characters per chunk ("chars" only)
+ * @returns Chunks, joined they equal the original text
+ */
+export function splitForTyping(
+  text: string,
+  split: TypingOptions["split"],
+  chunkSize: number
+): string[] {
+  if (text.length === 0) {
+    return [];
+  }
+
+  if (split === "chars") {
+    const chars = Array.from(text);
+    const chunks: string[] = [];
+    for (let i = 0; i < chars.length; i += chunkSize) {
+      chunks.push(chars.slice(i, i + chunkSize).join(""));
+    }
+    return chunks;
+  }
+
+  const segmenter = new Intl.Segmenter(undefined, { granularity: split });
+  const chunks: string[] = [];
+  for (const segment of segmenter.segment(text)) {
+    // Attach non-word segments (spaces, punctuation) to the previous word
+    if (split === "word" && !segment.isWordLike && chunks.length > 0) {
+      chunks[chunks.length - 1] += segment.segment;
+    } else {
+      chunks.push(segment.segment);
+    }
+  }
+  return chunks;
+}
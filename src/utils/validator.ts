@@ -0,0 +1,87 @@
+import type { ResponseValidator } from "../config/schema";
+import type {
+  ChatCompletionsRequest,
+  ChatCompletionsResponse,
+} from "../schemas/openai";
+import { contentToText } from "./content";
+
+/**
+ * Find the first validator rule a response fails
+ * Rules are checked in order, see ResponseValidatorSchema for the rule types.
+ * @param request Chat completion request the response belongs to
+ * @param response Chat completion response
+ * @param validators Validator rules
+ * @returns The failed rule and a description of the failure, or null if all pass
+ */
+export function findFailedValidator(
+  request: ChatCompletionsRequest,
+  response: ChatCompletionsResponse,
+  validators: ResponseValidator[]
+): { validator: ResponseValidator; reason: string } | null {
+  for (const validator of validators) {
+    const reason = checkValidator(request, response, validator);
+    if (reason) {
+      return { validator, reason };
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a single validator rule
+ * @returns Description of the failure, or null if the response passes
+ */
+function checkValidator(
+  request: ChatCompletionsRequest,
+  response: ChatCompletionsResponse,
+  validator: ResponseValidator
+): string | null {
+  const hasToolCall = (choice: ChatCompletionsResponse["choices"][number]) =>
+    (choice.message.tool_calls?.length ?? 0) > 0 ||
+    !!choice.message.function_call;
+
+  switch (validator.type) {
+    case "regex": {
+      // g and y make test() stateful (lastIndex), which would skip matches
+      const flags = validator.flags.replace(/[gy]/g, "");
+      const pattern = new RegExp(validator.pattern!, flags);
+      const choice = response.choices.find((choice) =>
+        pattern.test(contentToText(choice.message.content ?? null))
+      );
+      return choice
+        ? `content of choice ${choice.index} matches /${validator.pattern}/`
+        : null;
+    }
+    case "finish_reason": {
+      const choice = response.choices.find(
+        (choice) =>
+          !!choice.finish_reason &&
+          validator.finish_reasons.includes(choice.finish_reason)
+      );
+      return choice
+        ? `choice ${choice.index} finished with "${choice.finish_reason}"`
+        : null;
+    }
+    case "min_length": {
+      // Tool call responses usually have no content
+      const choice = response.choices.find(
+        (choice) =>
+          !hasToolCall(choice) &&
+          contentToText(choice.message.content ?? null).trim().length <
+            validator.min_length!
+      );
+      return choice
+        ? `content of choice ${choice.index} is shorter than ${validator.min_length} characters`
+        : null;
+    }
+    case "tool_call_required": {
+      const toolChoice = request.tool_choice;
+      const required =
+        toolChoice === "required" ||
+        (typeof toolChoice === "object" && toolChoice !== null);
+      return required && !response.choices.some(hasToolCall)
+        ? "tool_choice requires a tool call, but the response has none"
+        : null;
+    }
+  }
+}